@@ -1,9 +1,8 @@
 import React from 'react';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StyleSheet, View, Text, ScrollView } from 'react-native';
-import StlViewer from './src/screens/StlViewer';
-import PlyViewer from './src/screens/PlyViewer';
-import ObjViewer from './src/screens/ObjViewer';
+import ModelViewer from './src/screens/ModelViewer';
+import DicomViewer from './src/screens/DicomViewer';
 
 export default function App() {
   return (
@@ -12,18 +11,13 @@ export default function App() {
         <Text style={styles.title}>3D Viewers</Text>
         
         <View style={styles.viewerContainer}>
-          <Text style={styles.label}>STL Viewer</Text>
-          <StlViewer />
+          <Text style={styles.label}>DICOM Viewer</Text>
+          <DicomViewer />
         </View>
 
         <View style={styles.viewerContainer}>
-          <Text style={styles.label}>PLY Viewer</Text>
-          <PlyViewer />
-        </View>
-
-        <View style={styles.viewerContainer}>
-          <Text style={styles.label}>OBJ Viewer</Text>
-          <ObjViewer />
+          <Text style={styles.label}>3D Model Viewer</Text>
+          <ModelViewer />
         </View>
       </ScrollView>
     </View>
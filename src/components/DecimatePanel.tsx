@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Decimation } from '../utils/decimate';
+
+const PERCENT_TARGETS = [50, 25, 10, 5, 1];
+const COUNT_TARGETS = [500000, 250000, 100000, 50000, 10000];
+
+export default function DecimatePanel({
+  triangleCount,
+  target,
+  preview,
+  showingOriginal,
+  progress,
+  lowDetailOrbit,
+  onTargetChange,
+  onPreview,
+  onCompare,
+  onApply,
+  onDiscard,
+  onLowDetailOrbitChange,
+}: {
+  /** Triangles in the meshes that would be simplified. */
+  triangleCount: number;
+  target: number;
+  preview: Decimation | null;
+  showingOriginal: boolean;
+  /** 0..1 while simplifying, null otherwise. */
+  progress: number | null;
+  lowDetailOrbit: boolean;
+  onTargetChange: (target: number) => void;
+  onPreview: () => void;
+  onCompare: (original: boolean) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+  onLowDetailOrbitChange: (enabled: boolean) => void;
+}) {
+  const busy = progress !== null;
+  const counts = COUNT_TARGETS.filter(count => count < triangleCount);
+
+  return (
+    <View style={styles.panel}>
+      {!preview && (
+        <>
+          <View style={styles.chips}>
+            {PERCENT_TARGETS.map(percent => {
+              const count = Math.round((triangleCount * percent) / 100);
+              return (
+                <TouchableOpacity key={percent} onPress={() => onTargetChange(count)} style={[styles.chip, target === count && styles.chipActive]}>
+                  <Text style={[styles.chipText, target === count && styles.chipTextActive]}>{percent}%</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {counts.length > 0 && (
+            <View style={styles.chips}>
+              {counts.map(count => (
+                <TouchableOpacity key={count} onPress={() => onTargetChange(count)} style={[styles.chip, target === count && styles.chipActive]}>
+                  <Text style={[styles.chipText, target === count && styles.chipTextActive]}>{count / 1000}k</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <Text style={styles.summary}>
+            {triangleCount.toLocaleString()} → {target.toLocaleString()} triangles
+          </Text>
+          <TouchableOpacity onPress={onPreview} disabled={busy} style={[styles.button, busy && styles.buttonDisabled]}>
+            <Feather name="minimize-2" size={14} color="white" />
+            <Text style={styles.buttonText}>{busy ? `Simplifying... ${Math.round(progress * 100)}%` : 'Preview'}</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      {preview && (
+        <>
+          <Text style={styles.summary}>
+            {preview.before.toLocaleString()} → {preview.after.toLocaleString()} triangles
+          </Text>
+          <View style={styles.chips}>
+            <TouchableOpacity onPress={() => onCompare(true)} style={[styles.chip, showingOriginal && styles.chipActive]}>
+              <Text style={[styles.chipText, showingOriginal && styles.chipTextActive]}>Original</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onCompare(false)} style={[styles.chip, !showingOriginal && styles.chipActive]}>
+              <Text style={[styles.chipText, !showingOriginal && styles.chipTextActive]}>Simplified</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={onDiscard} style={[styles.button, styles.secondary]}>
+              <Feather name="x" size={14} color="white" />
+              <Text style={styles.buttonText}>Discard</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onApply} style={[styles.button, styles.primary]}>
+              <Feather name="check" size={14} color="white" />
+              <Text style={styles.buttonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+
+      <TouchableOpacity onPress={() => onLowDetailOrbitChange(!lowDetailOrbit)} style={styles.toggle}>
+        <Feather name={lowDetailOrbit ? 'check-square' : 'square'} size={16} color={lowDetailOrbit ? '#007bff' : '#ccc'} />
+        <Text style={styles.toggleText}>Low detail while orbiting</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 8, backgroundColor: '#222', borderTopWidth: 1, borderColor: '#333' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 4 },
+  chip: { paddingHorizontal: 10, paddingVertical: 4, margin: 2, borderRadius: 12, backgroundColor: '#333' },
+  chipActive: { backgroundColor: '#007bff' },
+  chipText: { color: '#ccc', fontSize: 12 },
+  chipTextActive: { color: 'white' },
+  summary: { color: 'white', fontSize: 13, marginVertical: 4, fontVariant: ['tabular-nums'] },
+  actions: { flexDirection: 'row' },
+  button: { flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', paddingVertical: 6, marginVertical: 4, marginHorizontal: 2, borderRadius: 6, backgroundColor: '#007bff' },
+  buttonDisabled: { backgroundColor: '#495057' },
+  primary: { backgroundColor: '#007bff' },
+  secondary: { backgroundColor: '#495057' },
+  buttonText: { color: 'white', fontSize: 13, marginLeft: 6 },
+  toggle: { flexDirection: 'row', alignItems: 'center', paddingVertical: 6 },
+  toggleText: { color: '#ccc', fontSize: 13, marginLeft: 8 },
+});
@@ -0,0 +1,171 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import * as THREE from 'three';
+import { Feather } from '@expo/vector-icons';
+import { Layer } from '../utils/layers';
+import { COLOR_MAPS, ColorMapName, DeviationResult, sampleColorMap, withinTolerance } from '../utils/deviation';
+import { Units, formatLength } from '../utils/units';
+
+// Swatches drawn for the legend's gradient
+const LEGEND_STEPS = 24;
+
+export default function DeviationPanel({
+  layers,
+  testId,
+  referenceId,
+  result,
+  progress,
+  colorMap,
+  range,
+  tolerance,
+  units,
+  onTestChange,
+  onReferenceChange,
+  onCompute,
+  onColorMapChange,
+  onRangeChange,
+  onToleranceChange,
+}: {
+  layers: Layer[];
+  testId: string | null;
+  referenceId: string | null;
+  result: DeviationResult | null;
+  /** 0..1 while computing, null otherwise. */
+  progress: number | null;
+  colorMap: ColorMapName;
+  range: number;
+  tolerance: number;
+  units: Units;
+  onTestChange: (id: string) => void;
+  onReferenceChange: (id: string) => void;
+  onCompute: () => void;
+  onColorMapChange: (map: ColorMapName) => void;
+  onRangeChange: (range: number) => void;
+  onToleranceChange: (tolerance: number) => void;
+}) {
+  const computing = progress !== null;
+  const canCompute = !computing && testId !== null && referenceId !== null && testId !== referenceId;
+  const color = new THREE.Color();
+
+  return (
+    <View style={styles.panel}>
+      <LayerChips label="Test" layers={layers} selected={testId} onSelect={onTestChange} />
+      <LayerChips label="Reference" layers={layers} selected={referenceId} onSelect={onReferenceChange} />
+
+      <TouchableOpacity onPress={onCompute} disabled={!canCompute} style={[styles.compute, !canCompute && styles.computeDisabled]}>
+        <Feather name="activity" size={14} color="white" />
+        <Text style={styles.computeText}>
+          {computing ? `Computing... ${Math.round(progress * 100)}%` : result ? 'Recompute' : 'Compute deviation'}
+        </Text>
+      </TouchableOpacity>
+
+      {result && !computing && (
+        <>
+          <View style={styles.chips}>
+            {(Object.keys(COLOR_MAPS) as ColorMapName[]).map(map => (
+              <TouchableOpacity key={map} onPress={() => onColorMapChange(map)} style={[styles.chip, colorMap === map && styles.chipActive]}>
+                <Text style={[styles.chipText, colorMap === map && styles.chipTextActive]}>{COLOR_MAPS[map].label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.legend}>
+            {Array.from({ length: LEGEND_STEPS }, (_, i) => {
+              const d = (i / (LEGEND_STEPS - 1) * 2 - 1) * range;
+              const t = Math.abs(d) <= tolerance ? 0.5 : 0.5 + d / (2 * range);
+              return <View key={i} style={[styles.legendStep, { backgroundColor: `#${sampleColorMap(colorMap, t, color).getHexString()}` }]} />;
+            })}
+          </View>
+          <View style={styles.legendLabels}>
+            <Text style={styles.legendText}>-{formatLength(range, units)}</Text>
+            <Text style={styles.legendText}>0</Text>
+            <Text style={styles.legendText}>+{formatLength(range, units)}</Text>
+          </View>
+
+          <View style={styles.row}>
+            <Text style={styles.label}>Range ±</Text>
+            <Stepper value={formatLength(range, units)} onMinus={() => onRangeChange(range / 2)} onPlus={() => onRangeChange(range * 2)} />
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Tolerance ±</Text>
+            <Stepper
+              value={formatLength(tolerance, units)}
+              onMinus={() => onToleranceChange(tolerance / 2)}
+              onPlus={() => onToleranceChange(Math.min(tolerance * 2, range))}
+            />
+          </View>
+
+          <Stat label="Min" value={formatLength(result.min, units)} />
+          <Stat label="Max" value={formatLength(result.max, units)} />
+          <Stat label="Mean" value={formatLength(result.mean, units)} />
+          <Stat label="RMS" value={formatLength(result.rms, units)} />
+          <Stat label="Within tolerance" value={`${(withinTolerance(result, tolerance) * 100).toFixed(1)}%`} />
+        </>
+      )}
+    </View>
+  );
+}
+
+function LayerChips({ label, layers, selected, onSelect }: {
+  label: string;
+  layers: Layer[];
+  selected: string | null;
+  onSelect: (id: string) => void;
+}) {
+  return (
+    <View style={styles.chips}>
+      <Text style={styles.label}>{label}</Text>
+      {layers.map(layer => (
+        <TouchableOpacity key={layer.id} onPress={() => onSelect(layer.id)} style={[styles.chip, selected === layer.id && styles.chipActive]}>
+          <Text style={[styles.chipText, selected === layer.id && styles.chipTextActive]} numberOfLines={1}>{layer.name}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+function Stepper({ value, onMinus, onPlus }: { value: string; onMinus: () => void; onPlus: () => void }) {
+  return (
+    <View style={styles.stepper}>
+      <TouchableOpacity onPress={onMinus} style={styles.stepButton}>
+        <Feather name="minus" size={14} color="#ccc" />
+      </TouchableOpacity>
+      <Text style={styles.stepValue}>{value}</Text>
+      <TouchableOpacity onPress={onPlus} style={styles.stepButton}>
+        <Feather name="plus" size={14} color="#ccc" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.statLabel}>{label}</Text>
+      <Text style={styles.statValue}>{value}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 8, backgroundColor: '#222', borderTopWidth: 1, borderColor: '#333' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', marginBottom: 4 },
+  chip: { maxWidth: 140, paddingHorizontal: 10, paddingVertical: 4, margin: 2, borderRadius: 12, backgroundColor: '#333' },
+  chipActive: { backgroundColor: '#007bff' },
+  chipText: { color: '#ccc', fontSize: 12 },
+  chipTextActive: { color: 'white' },
+  label: { width: 80, color: '#ccc', fontSize: 12 },
+  compute: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', paddingVertical: 6, marginVertical: 4, borderRadius: 6, backgroundColor: '#007bff' },
+  computeDisabled: { backgroundColor: '#495057' },
+  computeText: { color: 'white', fontSize: 13, marginLeft: 6 },
+  legend: { flexDirection: 'row', height: 12, marginTop: 6, borderRadius: 3, overflow: 'hidden' },
+  legendStep: { flex: 1 },
+  legendLabels: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 4 },
+  legendText: { color: '#ccc', fontSize: 11 },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 2 },
+  stepper: { flex: 1, flexDirection: 'row', alignItems: 'center', borderRadius: 12, backgroundColor: '#333' },
+  stepButton: { paddingHorizontal: 10, paddingVertical: 4 },
+  stepValue: { flex: 1, color: 'white', fontSize: 12, textAlign: 'center', fontVariant: ['tabular-nums'] },
+  statLabel: { flex: 1, color: '#ccc', fontSize: 13 },
+  statValue: { color: 'white', fontSize: 13, fontVariant: ['tabular-nums'] },
+});
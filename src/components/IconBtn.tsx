@@ -0,0 +1,38 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons, Feather, MaterialIcons } from '@expo/vector-icons';
+
+export default function IconBtn({ icon, onPress, disabled = false, active = false, pack = 'feather' }: {
+  icon: string;
+  onPress: () => void;
+  disabled?: boolean;
+  active?: boolean;
+  pack?: 'feather' | 'ion' | 'material';
+}) {
+  const IconPack: any = pack === 'ion' ? Ionicons : pack === 'material' ? MaterialIcons : Feather;
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      style={[styles.iconButton, active && styles.activeBtn, disabled && styles.disabledBtn]}
+      disabled={disabled}
+    >
+      <IconPack name={icon} size={22} color={disabled ? '#bbb' : active ? '#007bff' : '#4a5568'} />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  iconButton: {
+    backgroundColor: '#ffffff',
+    padding: 10,
+    marginHorizontal: 6,
+    marginVertical: 3,
+    borderRadius: 8,
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  activeBtn: { backgroundColor: '#e7f1ff' },
+  disabledBtn: { opacity: 0.6 },
+});
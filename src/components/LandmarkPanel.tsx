@@ -0,0 +1,86 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Landmark, LANDMARK_COLORS } from '../utils/landmarks';
+
+export default function LandmarkPanel({ landmarks, selectedId, onSelect, onChange, onRemove, onFocus }: {
+  landmarks: Landmark[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (landmark: Landmark) => void;
+  onRemove: (id: string) => void;
+  onFocus: (landmark: Landmark) => void;
+}) {
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.hint}>
+        {landmarks.length === 0 ? 'Tap the model to drop a landmark' : 'Tap the model to add more, tap a landmark to edit it'}
+      </Text>
+
+      {landmarks.map(landmark => {
+        const selected = landmark.id === selectedId;
+        return (
+          <View key={landmark.id} style={[styles.item, selected && styles.itemSelected]}>
+            <TouchableOpacity style={styles.row} onPress={() => onSelect(selected ? null : landmark.id)}>
+              <View style={[styles.swatch, { backgroundColor: landmark.color }]} />
+              <Text style={styles.name} numberOfLines={1}>{landmark.name}</Text>
+              {!selected && landmark.note !== '' && <Feather name="file-text" size={14} color="#6c757d" />}
+              <TouchableOpacity onPress={() => onFocus(landmark)} style={styles.action}>
+                <Feather name="target" size={16} color="#ccc" />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => onRemove(landmark.id)} style={styles.action}>
+                <Feather name="trash-2" size={16} color="#ccc" />
+              </TouchableOpacity>
+            </TouchableOpacity>
+
+            {selected && (
+              <View style={styles.editor}>
+                <TextInput
+                  value={landmark.name}
+                  onChangeText={name => onChange({ ...landmark, name })}
+                  placeholder="Name"
+                  placeholderTextColor="#6c757d"
+                  style={styles.input}
+                />
+                <TextInput
+                  value={landmark.note}
+                  onChangeText={note => onChange({ ...landmark, note })}
+                  placeholder="Notes"
+                  placeholderTextColor="#6c757d"
+                  multiline
+                  style={[styles.input, styles.note]}
+                />
+                <View style={styles.colors}>
+                  {LANDMARK_COLORS.map(color => (
+                    <TouchableOpacity
+                      key={color}
+                      onPress={() => onChange({ ...landmark, color })}
+                      style={[styles.colorChip, { backgroundColor: color }, landmark.color === color && styles.colorChipActive]}
+                    />
+                  ))}
+                </View>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 8, backgroundColor: '#222', borderTopWidth: 1, borderColor: '#333' },
+  hint: { color: '#6c757d', fontSize: 12, marginBottom: 4 },
+  item: { borderRadius: 6, paddingHorizontal: 4 },
+  itemSelected: { backgroundColor: '#2c2c2c' },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 4 },
+  swatch: { width: 10, height: 10, borderRadius: 5, marginRight: 8 },
+  name: { flex: 1, color: 'white', fontSize: 13 },
+  action: { paddingHorizontal: 8 },
+  editor: { paddingBottom: 6 },
+  input: { marginTop: 4, paddingHorizontal: 8, paddingVertical: 4, borderRadius: 6, backgroundColor: '#fff', color: '#222', fontSize: 13 },
+  note: { minHeight: 48, textAlignVertical: 'top' },
+  colors: { flexDirection: 'row', marginTop: 6 },
+  colorChip: { width: 22, height: 22, borderRadius: 11, marginRight: 8, borderWidth: 2, borderColor: 'transparent' },
+  colorChipActive: { borderColor: 'white' },
+});
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import Slider from './Slider';
+import { Layer, LAYER_COLORS } from '../utils/layers';
+import { UNIT_LABELS } from '../utils/units';
+
+const AXES = ['X', 'Y', 'Z'];
+// Rotation per tap, in degrees
+const ROTATE_STEP = 5;
+
+export default function LayerPanel({ layers, moveStep, formatOffset, adding, onChange, onRemove, onAdd }: {
+  layers: Layer[];
+  /** Translation per tap, in model units. */
+  moveStep: number;
+  formatOffset: (value: number) => string;
+  adding: boolean;
+  onChange: (layer: Layer) => void;
+  onRemove: (id: string) => void;
+  onAdd: () => void;
+}) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const nudge = (layer: Layer, key: 'offset' | 'rotation', axis: number, delta: number) => {
+    const values = [...layer[key]] as [number, number, number];
+    values[axis] += delta;
+    onChange({ ...layer, [key]: values });
+  };
+
+  // Cycles through the layer colours, then back to the file's own
+  const nextColor = (layer: Layer) => {
+    const index = layer.color === null ? -1 : LAYER_COLORS.indexOf(layer.color);
+    return index + 1 < LAYER_COLORS.length ? LAYER_COLORS[index + 1] : null;
+  };
+
+  return (
+    <View style={styles.panel}>
+      {layers.map((layer, i) => {
+        const selected = layer.id === selectedId;
+        return (
+          <View key={layer.id} style={[styles.item, selected && styles.itemSelected]}>
+            <View style={styles.row}>
+              <TouchableOpacity onPress={() => onChange({ ...layer, visible: !layer.visible })} style={styles.action}>
+                <Feather name={layer.visible ? 'eye' : 'eye-off'} size={16} color={layer.visible ? '#ccc' : '#6c757d'} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => onChange({ ...layer, color: nextColor(layer) })}
+                style={[styles.swatch, layer.color ? { backgroundColor: layer.color } : styles.swatchFile]}
+              />
+              <TouchableOpacity style={styles.nameButton} onPress={() => setSelectedId(selected ? null : layer.id)}>
+                <Text style={styles.name} numberOfLines={1}>{layer.name}</Text>
+                <Text style={styles.meta}>
+                  {layer.stats.format} · {UNIT_LABELS[layer.unit]}
+                  {layer.stats.triangleCount !== undefined ? ` · ${layer.stats.triangleCount} triangles` : ''}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setSelectedId(selected ? null : layer.id)} style={styles.action}>
+                <Feather name="move" size={16} color={selected ? '#007bff' : '#ccc'} />
+              </TouchableOpacity>
+              {/* The first layer defines the frame, it goes away with the whole scene */}
+              {i > 0 && (
+                <TouchableOpacity onPress={() => onRemove(layer.id)} style={styles.action}>
+                  <Feather name="trash-2" size={16} color="#ccc" />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.opacityRow}>
+              <Text style={styles.label}>Opacity</Text>
+              <View style={styles.slider}>
+                <Slider
+                  value={layer.opacity}
+                  onValueChange={opacity => onChange({ ...layer, opacity: Math.max(opacity, 0.05) })}
+                  color={layer.color ?? '#007bff'}
+                />
+              </View>
+              <Text style={styles.value}>{Math.round(layer.opacity * 100)}%</Text>
+            </View>
+
+            {selected && (
+              <View style={styles.transform}>
+                {AXES.map((axis, a) => (
+                  <View key={axis} style={styles.axisRow}>
+                    <Text style={styles.label}>{axis}</Text>
+                    <Stepper
+                      value={formatOffset(layer.offset[a])}
+                      onMinus={() => nudge(layer, 'offset', a, -moveStep)}
+                      onPlus={() => nudge(layer, 'offset', a, moveStep)}
+                    />
+                    <Stepper
+                      value={`${layer.rotation[a]}°`}
+                      onMinus={() => nudge(layer, 'rotation', a, -ROTATE_STEP)}
+                      onPlus={() => nudge(layer, 'rotation', a, ROTATE_STEP)}
+                    />
+                  </View>
+                ))}
+                <TouchableOpacity
+                  onPress={() => onChange({ ...layer, offset: [0, 0, 0], rotation: [0, 0, 0] })}
+                  style={styles.reset}
+                >
+                  <Feather name="rotate-ccw" size={14} color="#ccc" />
+                  <Text style={styles.resetText}>Reset transform</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      <TouchableOpacity onPress={onAdd} disabled={adding} style={styles.add}>
+        <Feather name="plus" size={16} color={adding ? '#6c757d' : '#007bff'} />
+        <Text style={[styles.addText, adding && styles.addTextDisabled]}>{adding ? 'Loading model...' : 'Add model'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+function Stepper({ value, onMinus, onPlus }: { value: string; onMinus: () => void; onPlus: () => void }) {
+  return (
+    <View style={styles.stepper}>
+      <TouchableOpacity onPress={onMinus} style={styles.stepButton}>
+        <Feather name="minus" size={14} color="#ccc" />
+      </TouchableOpacity>
+      <Text style={styles.stepValue} numberOfLines={1}>{value}</Text>
+      <TouchableOpacity onPress={onPlus} style={styles.stepButton}>
+        <Feather name="plus" size={14} color="#ccc" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 8, backgroundColor: '#222', borderTopWidth: 1, borderColor: '#333' },
+  item: { borderRadius: 6, paddingHorizontal: 4, paddingBottom: 4, marginBottom: 4 },
+  itemSelected: { backgroundColor: '#2c2c2c' },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 4 },
+  action: { paddingHorizontal: 8 },
+  swatch: { width: 18, height: 18, borderRadius: 9, marginRight: 8, borderWidth: 1, borderColor: '#444' },
+  swatchFile: { backgroundColor: '#6c757d', borderStyle: 'dashed', borderColor: '#ccc' },
+  nameButton: { flex: 1 },
+  name: { color: 'white', fontSize: 13 },
+  meta: { color: '#6c757d', fontSize: 11 },
+  opacityRow: { flexDirection: 'row', alignItems: 'center' },
+  label: { width: 56, color: '#ccc', fontSize: 12 },
+  slider: { flex: 1 },
+  value: { width: 40, color: 'white', fontSize: 12, textAlign: 'right', fontVariant: ['tabular-nums'] },
+  transform: { marginTop: 6 },
+  axisRow: { flexDirection: 'row', alignItems: 'center', marginVertical: 2 },
+  stepper: { flex: 1, flexDirection: 'row', alignItems: 'center', marginRight: 6, borderRadius: 12, backgroundColor: '#333' },
+  stepButton: { paddingHorizontal: 10, paddingVertical: 4 },
+  stepValue: { flex: 1, color: 'white', fontSize: 12, textAlign: 'center', fontVariant: ['tabular-nums'] },
+  reset: { flexDirection: 'row', alignItems: 'center', alignSelf: 'flex-start', marginTop: 4, paddingVertical: 4 },
+  resetText: { color: '#ccc', fontSize: 12, marginLeft: 4 },
+  add: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', paddingVertical: 6 },
+  addText: { color: '#007bff', fontSize: 13, marginLeft: 4 },
+  addTextDisabled: { color: '#6c757d' },
+});
@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { Measurement, MeasureTool, POINTS_PER_TOOL, MEASURE_COLOR, formatMeasurement } from '../utils/measure';
+import { Units } from '../utils/units';
+
+const TOOLS: { tool: MeasureTool; label: string; icon: keyof typeof Feather.glyphMap }[] = [
+  { tool: 'distance', label: 'Distance', icon: 'minus' },
+  { tool: 'angle', label: 'Angle', icon: 'chevron-left' },
+];
+
+export default function MeasurementPanel({ tool, measurements, pendingCount, units, onToolChange, onUndo, onClear }: {
+  tool: MeasureTool;
+  measurements: Measurement[];
+  pendingCount: number;
+  units: Units;
+  onToolChange: (tool: MeasureTool) => void;
+  onUndo: () => void;
+  onClear: () => void;
+}) {
+  const needed = POINTS_PER_TOOL[tool] - pendingCount;
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.toolbar}>
+        {TOOLS.map(t => (
+          <TouchableOpacity
+            key={t.tool}
+            onPress={() => onToolChange(t.tool)}
+            style={[styles.chip, tool === t.tool && styles.chipActive]}
+          >
+            <Feather name={t.icon} size={14} color={tool === t.tool ? 'white' : '#ccc'} />
+            <Text style={[styles.chipText, tool === t.tool && styles.chipTextActive]}>{t.label}</Text>
+          </TouchableOpacity>
+        ))}
+        <View style={styles.spacer} />
+        <TouchableOpacity onPress={onUndo} disabled={pendingCount === 0 && measurements.length === 0} style={styles.action}>
+          <Feather name="corner-up-left" size={18} color="#ccc" />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onClear} disabled={pendingCount === 0 && measurements.length === 0} style={styles.action}>
+          <Feather name="trash-2" size={18} color="#ccc" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.hint}>
+        Tap the model to place {needed} more point{needed === 1 ? '' : 's'}
+        {tool === 'angle' && pendingCount < 2 ? ', the second point is the vertex' : ''}
+      </Text>
+
+      {measurements.map((measurement, i) => (
+        <View key={i} style={styles.row}>
+          <View style={[styles.swatch, { backgroundColor: MEASURE_COLOR }]} />
+          <Text style={styles.label}>
+            {i + 1}. {measurement.tool === 'distance' ? 'Distance' : 'Angle'}
+          </Text>
+          <Text style={styles.value}>{formatMeasurement(measurement, units)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 8, backgroundColor: '#222', borderTopWidth: 1, borderColor: '#333' },
+  toolbar: { flexDirection: 'row', alignItems: 'center', marginBottom: 6 },
+  chip: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 10, paddingVertical: 4, marginRight: 6, borderRadius: 12, backgroundColor: '#333' },
+  chipActive: { backgroundColor: '#007bff' },
+  chipText: { color: '#ccc', fontSize: 13, marginLeft: 4 },
+  chipTextActive: { color: 'white' },
+  spacer: { flex: 1 },
+  action: { paddingHorizontal: 8 },
+  hint: { color: '#6c757d', fontSize: 12, marginBottom: 4 },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 2 },
+  swatch: { width: 10, height: 10, borderRadius: 2, marginRight: 8 },
+  label: { flex: 1, color: '#ccc', fontSize: 13 },
+  value: { color: 'white', fontSize: 13, fontVariant: ['tabular-nums'] },
+});
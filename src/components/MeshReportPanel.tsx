@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { MeshReport, PROBLEM_COLORS } from '../utils/meshAnalysis';
+import { Units, formatArea, formatVolume } from '../utils/units';
+
+export default function MeshReportPanel({ report, units }: { report: MeshReport; units: Units }) {
+  const printable = report.isClosed && report.inconsistentEdges === 0 && report.degenerateTriangles === 0;
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.header}>
+        <Feather name={printable ? 'check-circle' : 'alert-triangle'} size={18} color={printable ? '#28a745' : '#dc3545'} />
+        <Text style={styles.title}>
+          {printable ? 'Watertight' : report.isClosed ? 'Closed, with defects' : 'Open mesh'}
+          {report.insideOut ? ' (inside out)' : ''}
+        </Text>
+      </View>
+
+      <Row label="Open (boundary) edges" value={report.boundaryEdges} color={PROBLEM_COLORS.boundary} />
+      <Row label="Non-manifold edges" value={report.nonManifoldEdges} color={PROBLEM_COLORS.nonManifold} />
+      <Row label="Inconsistently oriented edges" value={report.inconsistentEdges} color={PROBLEM_COLORS.inconsistent} />
+      <Row label="Degenerate triangles" value={report.degenerateTriangles} />
+      <Row label="Shells" value={report.shellCount} />
+      <Row label="Welded vertices" value={report.vertexCount} />
+      <Row label="Surface area" value={formatArea(report.surfaceArea, units)} />
+      <Row label="Volume" value={report.volume !== null ? formatVolume(report.volume, units) : 'n/a (not closed)'} />
+    </View>
+  );
+}
+
+function Row({ label, value, color }: { label: string; value: number | string; color?: string }) {
+  const flagged = typeof value === 'number' && value > 0 && color !== undefined;
+  return (
+    <View style={styles.row}>
+      {color ? <View style={[styles.swatch, { backgroundColor: color }]} /> : <View style={styles.swatch} />}
+      <Text style={styles.label}>{label}</Text>
+      <Text style={[styles.value, flagged && { color }]}>{value}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 8, backgroundColor: '#222', borderTopWidth: 1, borderColor: '#333' },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', marginBottom: 6 },
+  title: { color: 'white', fontSize: 15, fontWeight: '600', marginLeft: 6 },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 2 },
+  swatch: { width: 10, height: 10, borderRadius: 2, marginRight: 8 },
+  label: { flex: 1, color: '#ccc', fontSize: 13 },
+  value: { color: 'white', fontSize: 13, fontVariant: ['tabular-nums'] },
+});
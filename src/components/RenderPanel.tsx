@@ -0,0 +1,137 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import * as THREE from 'three';
+import Slider from './Slider';
+import { ColorMapName, sampleColorMap } from '../utils/deviation';
+import { COLOR_PRESETS, RENDER_MODES, RenderMode, Shading } from '../utils/renderModes';
+
+const SHADINGS: { shading: Shading; label: string }[] = [
+  { shading: 'loaded', label: 'As loaded' },
+  { shading: 'flat', label: 'Flat' },
+  { shading: 'smooth', label: 'Smooth' },
+];
+
+// Swatches drawn for the curvature legend's gradient
+const LEGEND_STEPS = 24;
+
+export default function RenderPanel({
+  mode,
+  shading,
+  wireOver,
+  color,
+  colorMap,
+  isPointCloud,
+  onModeChange,
+  onShadingChange,
+  onWireOverChange,
+  onColorChange,
+}: {
+  mode: RenderMode;
+  shading: Shading;
+  wireOver: boolean;
+  /** The colour last picked, null while the model shows its own. */
+  color: string | null;
+  colorMap: ColorMapName;
+  /** Point clouds only take a colour. */
+  isPointCloud: boolean;
+  onModeChange: (mode: RenderMode) => void;
+  onShadingChange: (shading: Shading) => void;
+  onWireOverChange: (enabled: boolean) => void;
+  onColorChange: (color: string) => void;
+}) {
+  const hsl = new THREE.Color(color ?? COLOR_PRESETS[0]).getHSL({ h: 0, s: 0, l: 0 });
+  const setHSL = (h: number, l: number) => {
+    // Greys have no hue, give them some colour once the hue is dragged
+    const s = h !== hsl.h ? Math.max(hsl.s, 0.6) : hsl.s;
+    onColorChange(`#${new THREE.Color().setHSL(h, s, l).getHexString()}`);
+  };
+  const legendColor = new THREE.Color();
+
+  return (
+    <View style={styles.panel}>
+      {!isPointCloud && (
+        <>
+          <View style={styles.chips}>
+            {RENDER_MODES.map(option => (
+              <TouchableOpacity key={option.mode} onPress={() => onModeChange(option.mode)} style={[styles.chip, mode === option.mode && styles.chipActive]}>
+                <Text style={[styles.chipText, mode === option.mode && styles.chipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.chips}>
+            {SHADINGS.map(option => (
+              <TouchableOpacity key={option.shading} onPress={() => onShadingChange(option.shading)} style={[styles.chip, shading === option.shading && styles.chipActive]}>
+                <Text style={[styles.chipText, shading === option.shading && styles.chipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity onPress={() => onWireOverChange(!wireOver)} style={styles.toggle}>
+            <Feather name={wireOver ? 'check-square' : 'square'} size={16} color={wireOver ? '#007bff' : '#ccc'} />
+            <Text style={styles.toggleText}>Wireframe over surface</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      {mode === 'curvature' ? (
+        <>
+          <View style={styles.legend}>
+            {Array.from({ length: LEGEND_STEPS }, (_, i) => (
+              <View key={i} style={[styles.legendStep, { backgroundColor: `#${sampleColorMap(colorMap, i / (LEGEND_STEPS - 1), legendColor).getHexString()}` }]} />
+            ))}
+          </View>
+          <View style={styles.legendLabels}>
+            <Text style={styles.legendText}>Concave</Text>
+            <Text style={styles.legendText}>Flat</Text>
+            <Text style={styles.legendText}>Convex</Text>
+          </View>
+        </>
+      ) : mode !== 'normals' && (
+        <>
+          <View style={styles.swatches}>
+            {COLOR_PRESETS.map(preset => (
+              <TouchableOpacity
+                key={preset}
+                onPress={() => onColorChange(preset)}
+                style={[styles.swatch, { backgroundColor: preset }, color === preset && styles.swatchActive]}
+              />
+            ))}
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Hue</Text>
+            <View style={styles.slider}>
+              <Slider value={hsl.h} onValueChange={h => setHSL(h, hsl.l)} color={color ?? undefined} />
+            </View>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Lightness</Text>
+            <View style={styles.slider}>
+              <Slider value={hsl.l} onValueChange={l => setHSL(hsl.h, l)} color={color ?? undefined} />
+            </View>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 8, backgroundColor: '#222', borderTopWidth: 1, borderColor: '#333' },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: 4 },
+  chip: { paddingHorizontal: 10, paddingVertical: 4, margin: 2, borderRadius: 12, backgroundColor: '#333' },
+  chipActive: { backgroundColor: '#007bff' },
+  chipText: { color: '#ccc', fontSize: 12 },
+  chipTextActive: { color: 'white' },
+  toggle: { flexDirection: 'row', alignItems: 'center', paddingVertical: 6 },
+  toggleText: { color: '#ccc', fontSize: 13, marginLeft: 8 },
+  legend: { flexDirection: 'row', height: 12, marginTop: 6, borderRadius: 3, overflow: 'hidden' },
+  legendStep: { flex: 1 },
+  legendLabels: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 4 },
+  legendText: { color: '#ccc', fontSize: 11 },
+  swatches: { flexDirection: 'row', flexWrap: 'wrap', marginVertical: 4 },
+  swatch: { width: 24, height: 24, margin: 3, borderRadius: 12, borderWidth: 2, borderColor: '#333' },
+  swatchActive: { borderColor: 'white' },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 2 },
+  label: { width: 72, color: '#ccc', fontSize: 13 },
+  slider: { flex: 1 },
+});
@@ -0,0 +1,160 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { RepairOptions, RepairReport } from '../utils/repair';
+
+// Weld tolerances as fractions of the model's diagonal
+const WELD_FRACTIONS = [1e-6, 1e-5, 1e-4, 1e-3];
+const HOLE_LIMITS = [0, 10, 50, 200, 1000];
+const SHELL_TRIANGLES = [0, 10, 100, 1000];
+const SHELL_VOLUMES = [0, 0.001, 0.01, 0.1];
+
+export default function RepairPanel({
+  modelSize,
+  options,
+  report,
+  busy,
+  formatLength,
+  onOptionsChange,
+  onRepair,
+  onKeep,
+  onUndo,
+  onExport,
+}: {
+  /** Diagonal of the model, the weld tolerances are relative to it. */
+  modelSize: number;
+  options: RepairOptions;
+  /** Set while a repair is shown and not yet kept or undone. */
+  report: RepairReport | null;
+  busy: boolean;
+  formatLength: (value: number) => string;
+  onOptionsChange: (options: RepairOptions) => void;
+  onRepair: () => void;
+  onKeep: () => void;
+  onUndo: () => void;
+  onExport: () => void;
+}) {
+  if (report) {
+    const closed = report.openEdges === 0 && report.nonManifoldEdges === 0;
+    return (
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Feather name={closed ? 'check-circle' : 'alert-triangle'} size={18} color={closed ? '#28a745' : '#dc3545'} />
+          <Text style={styles.title}>{closed ? 'Closed and manifold' : 'Still open or non-manifold'}</Text>
+        </View>
+        <Row label="Triangles" value={`${report.trianglesBefore.toLocaleString()} → ${report.trianglesAfter.toLocaleString()}`} />
+        <Row label="Welded corners" value={report.weldedCorners} />
+        <Row label="Degenerate triangles removed" value={report.degenerateRemoved} />
+        <Row label="Duplicate triangles removed" value={report.duplicatesRemoved} />
+        <Row label="Triangles flipped" value={report.flippedTriangles} />
+        <Row label="Holes filled" value={report.holesSkipped > 0 ? `${report.holesFilled} (${report.holesSkipped} left open)` : report.holesFilled} />
+        <Row label="Shells removed" value={report.shellsRemoved > 0 ? `${report.shellsRemoved} (${report.shellTrianglesRemoved} triangles)` : 0} />
+        <Row label="Open edges left" value={report.openEdges} />
+        <Row label="Non-manifold edges left" value={report.nonManifoldEdges} />
+        <View style={styles.actions}>
+          <Button icon="corner-up-left" label="Undo" onPress={onUndo} secondary />
+          <Button icon="check" label="Keep" onPress={onKeep} />
+          <Button icon="download" label="Keep & export" onPress={onExport} />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.panel}>
+      <ChipRow
+        label="Weld within"
+        values={WELD_FRACTIONS}
+        selected={WELD_FRACTIONS.find(f => Math.abs(f * modelSize - options.weldTolerance) <= f * modelSize * 1e-6)}
+        format={f => formatLength(f * modelSize)}
+        onSelect={f => onOptionsChange({ ...options, weldTolerance: f * modelSize })}
+      />
+      <ChipRow
+        label="Fill holes up to"
+        values={HOLE_LIMITS}
+        selected={options.maxHoleEdges}
+        format={n => (n === 0 ? 'Off' : `${n} edges`)}
+        onSelect={n => onOptionsChange({ ...options, maxHoleEdges: n })}
+      />
+      <ChipRow
+        label="Drop shells under"
+        values={SHELL_TRIANGLES}
+        selected={options.minShellTriangles}
+        format={n => (n === 0 ? 'Off' : `${n} triangles`)}
+        onSelect={n => onOptionsChange({ ...options, minShellTriangles: n })}
+      />
+      <ChipRow
+        label="or under"
+        values={SHELL_VOLUMES}
+        selected={options.minShellVolume}
+        format={f => (f === 0 ? 'Off' : `${f * 100}% volume`)}
+        onSelect={f => onOptionsChange({ ...options, minShellVolume: f })}
+      />
+      <View style={styles.actions}>
+        <Button icon="tool" label={busy ? 'Repairing...' : 'Repair'} onPress={onRepair} disabled={busy} />
+      </View>
+    </View>
+  );
+}
+
+function ChipRow({ label, values, selected, format, onSelect }: {
+  label: string;
+  values: number[];
+  selected: number | undefined;
+  format: (value: number) => string;
+  onSelect: (value: number) => void;
+}) {
+  return (
+    <View style={styles.chips}>
+      <Text style={styles.chipLabel}>{label}</Text>
+      {values.map(value => (
+        <TouchableOpacity key={value} onPress={() => onSelect(value)} style={[styles.chip, selected === value && styles.chipActive]}>
+          <Text style={[styles.chipText, selected === value && styles.chipTextActive]}>{format(value)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+function Row({ label, value }: { label: string; value: number | string }) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.value}>{typeof value === 'number' ? value.toLocaleString() : value}</Text>
+    </View>
+  );
+}
+
+function Button({ icon, label, onPress, disabled = false, secondary = false }: {
+  icon: keyof typeof Feather.glyphMap;
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+  secondary?: boolean;
+}) {
+  return (
+    <TouchableOpacity onPress={onPress} disabled={disabled} style={[styles.button, (secondary || disabled) && styles.buttonSecondary]}>
+      <Feather name={icon} size={14} color="white" />
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 8, backgroundColor: '#222', borderTopWidth: 1, borderColor: '#333' },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', marginBottom: 6 },
+  title: { color: 'white', fontSize: 15, fontWeight: '600', marginLeft: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', marginBottom: 4 },
+  chipLabel: { width: 110, color: '#ccc', fontSize: 12 },
+  chip: { paddingHorizontal: 10, paddingVertical: 4, margin: 2, borderRadius: 12, backgroundColor: '#333' },
+  chipActive: { backgroundColor: '#007bff' },
+  chipText: { color: '#ccc', fontSize: 12 },
+  chipTextActive: { color: 'white' },
+  row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 2 },
+  label: { flex: 1, color: '#ccc', fontSize: 13 },
+  value: { color: 'white', fontSize: 13, fontVariant: ['tabular-nums'] },
+  actions: { flexDirection: 'row', marginTop: 4 },
+  button: { flex: 1, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', paddingVertical: 6, marginHorizontal: 2, borderRadius: 6, backgroundColor: '#007bff' },
+  buttonSecondary: { backgroundColor: '#495057' },
+  buttonText: { color: 'white', fontSize: 13, marginLeft: 6 },
+});
@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import Slider from './Slider';
+import { SectionAxis, SectionPlane, SECTION_COLORS } from '../utils/section';
+
+const AXES: { axis: SectionAxis; label: string }[] = [
+  { axis: 'x', label: 'X' },
+  { axis: 'y', label: 'Y' },
+  { axis: 'z', label: 'Z' },
+  { axis: 'custom', label: 'Custom' },
+];
+
+export default function SectionPanel({ sections, onChange, onAdd, onRemove, onDragStart, onDragEnd }: {
+  sections: SectionPlane[];
+  onChange: (index: number, section: SectionPlane) => void;
+  onAdd: () => void;
+  onRemove: (index: number) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  return (
+    <View style={styles.panel}>
+      {sections.map((section, i) => {
+        const color = SECTION_COLORS[i % SECTION_COLORS.length];
+        const update = (patch: Partial<SectionPlane>) => onChange(i, { ...section, ...patch });
+        return (
+          <View key={i} style={styles.section}>
+            <View style={styles.toolbar}>
+              <View style={[styles.swatch, { backgroundColor: color }]} />
+              {AXES.map(a => (
+                <TouchableOpacity
+                  key={a.axis}
+                  onPress={() => update({ axis: a.axis })}
+                  style={[styles.chip, section.axis === a.axis && styles.chipActive]}
+                >
+                  <Text style={[styles.chipText, section.axis === a.axis && styles.chipTextActive]}>{a.label}</Text>
+                </TouchableOpacity>
+              ))}
+              <View style={styles.spacer} />
+              <TouchableOpacity onPress={() => update({ flipped: !section.flipped })} style={styles.action}>
+                <Feather name="repeat" size={18} color={section.flipped ? '#007bff' : '#ccc'} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => onRemove(i)} style={styles.action}>
+                <Feather name="x" size={18} color="#ccc" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.label}>Position {Math.round(section.position * 100)}%</Text>
+            <Slider
+              value={section.position}
+              color={color}
+              onValueChange={position => update({ position })}
+              onSlidingStart={onDragStart}
+              onSlidingComplete={onDragEnd}
+            />
+
+            {section.axis === 'custom' && (
+              <>
+                <Text style={styles.label}>Azimuth {Math.round(section.azimuth)}°</Text>
+                <Slider
+                  value={(section.azimuth + 180) / 360}
+                  color={color}
+                  onValueChange={t => update({ azimuth: t * 360 - 180 })}
+                  onSlidingStart={onDragStart}
+                  onSlidingComplete={onDragEnd}
+                />
+                <Text style={styles.label}>Elevation {Math.round(section.elevation)}°</Text>
+                <Slider
+                  value={(section.elevation + 90) / 180}
+                  color={color}
+                  onValueChange={t => update({ elevation: t * 180 - 90 })}
+                  onSlidingStart={onDragStart}
+                  onSlidingComplete={onDragEnd}
+                />
+              </>
+            )}
+          </View>
+        );
+      })}
+
+      {sections.length < SECTION_COLORS.length && (
+        <TouchableOpacity onPress={onAdd} style={styles.add}>
+          <Feather name="plus" size={16} color="#ccc" />
+          <Text style={styles.chipText}>Add plane</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 8, backgroundColor: '#222', borderTopWidth: 1, borderColor: '#333' },
+  section: { marginBottom: 6 },
+  toolbar: { flexDirection: 'row', alignItems: 'center', marginBottom: 2 },
+  swatch: { width: 10, height: 10, borderRadius: 2, marginRight: 8 },
+  chip: { paddingHorizontal: 10, paddingVertical: 4, marginRight: 6, borderRadius: 12, backgroundColor: '#333' },
+  chipActive: { backgroundColor: '#007bff' },
+  chipText: { color: '#ccc', fontSize: 13, marginLeft: 4 },
+  chipTextActive: { color: 'white' },
+  spacer: { flex: 1 },
+  action: { paddingHorizontal: 8 },
+  label: { color: '#6c757d', fontSize: 12, marginTop: 2 },
+  add: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', paddingVertical: 4 },
+});
@@ -0,0 +1,58 @@
+import React, { useRef } from 'react';
+import { View, StyleSheet, PanResponder } from 'react-native';
+
+/** Minimal horizontal slider for values in 0..1. */
+export default function Slider({ value, onValueChange, onSlidingStart, onSlidingComplete, color = '#007bff' }: {
+  value: number;
+  onValueChange: (value: number) => void;
+  onSlidingStart?: () => void;
+  onSlidingComplete?: () => void;
+  color?: string;
+}) {
+  const widthRef = useRef(1);
+  // The responder is created once, so it reads the latest callbacks through a ref
+  const callbacks = useRef({ onValueChange, onSlidingStart, onSlidingComplete });
+  callbacks.current = { onValueChange, onSlidingStart, onSlidingComplete };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: e => {
+        callbacks.current.onSlidingStart?.();
+        callbacks.current.onValueChange(clamp(e.nativeEvent.locationX / widthRef.current));
+      },
+      onPanResponderMove: e => {
+        callbacks.current.onValueChange(clamp(e.nativeEvent.locationX / widthRef.current));
+      },
+      onPanResponderRelease: () => callbacks.current.onSlidingComplete?.(),
+      onPanResponderTerminate: () => callbacks.current.onSlidingComplete?.(),
+    })
+  ).current;
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={e => {
+        widthRef.current = Math.max(e.nativeEvent.layout.width, 1);
+      }}
+      {...panResponder.panHandlers}
+    >
+      <View pointerEvents="none" style={styles.track}>
+        <View style={[styles.fill, { width: `${value * 100}%`, backgroundColor: color }]} />
+      </View>
+      <View pointerEvents="none" style={[styles.thumb, { left: `${value * 100}%`, borderColor: color }]} />
+    </View>
+  );
+}
+
+function clamp(value: number) {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+const styles = StyleSheet.create({
+  container: { height: 28, justifyContent: 'center', marginHorizontal: 8 },
+  track: { height: 4, borderRadius: 2, backgroundColor: '#444', overflow: 'hidden' },
+  fill: { height: 4 },
+  thumb: { position: 'absolute', width: 18, height: 18, marginLeft: -9, borderRadius: 9, borderWidth: 3, backgroundColor: 'white' },
+});
@@ -0,0 +1,53 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { LENGTH_UNITS, LengthUnit, UNIT_LABELS } from '../utils/units';
+
+export default function UnitBar({ modelUnit, modelUnitSource, displayUnit, onModelUnitChange, onDisplayUnitChange }: {
+  modelUnit: LengthUnit;
+  modelUnitSource: 'file' | 'size' | 'user';
+  displayUnit: LengthUnit;
+  onModelUnitChange: (unit: LengthUnit) => void;
+  onDisplayUnitChange: (unit: LengthUnit) => void;
+}) {
+  return (
+    <View style={styles.panel}>
+      <UnitRow
+        label={`Model (${modelUnitSource === 'file' ? 'from file' : modelUnitSource === 'size' ? 'guessed' : 'set'})`}
+        selected={modelUnit}
+        onSelect={onModelUnitChange}
+      />
+      <UnitRow label="Display" selected={displayUnit} onSelect={onDisplayUnitChange} />
+    </View>
+  );
+}
+
+function UnitRow({ label, selected, onSelect }: {
+  label: string;
+  selected: LengthUnit;
+  onSelect: (unit: LengthUnit) => void;
+}) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      {LENGTH_UNITS.map(unit => (
+        <TouchableOpacity
+          key={unit}
+          onPress={() => onSelect(unit)}
+          style={[styles.chip, selected === unit && styles.chipActive]}
+        >
+          <Text style={[styles.chipText, selected === unit && styles.chipTextActive]}>{UNIT_LABELS[unit]}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: { padding: 6, backgroundColor: '#222' },
+  row: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'center' },
+  label: { width: 110, color: '#ccc', fontSize: 13 },
+  chip: { paddingHorizontal: 10, paddingVertical: 4, margin: 3, borderRadius: 12, backgroundColor: '#333' },
+  chipActive: { backgroundColor: '#007bff' },
+  chipText: { color: '#ccc', fontSize: 13 },
+  chipTextActive: { color: 'white' },
+});
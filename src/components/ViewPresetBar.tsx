@@ -0,0 +1,50 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Projection, ViewPreset } from '../utils/orbitControls';
+
+const PRESETS: { preset: ViewPreset; label: string }[] = [
+  { preset: 'front', label: 'Front' },
+  { preset: 'back', label: 'Back' },
+  { preset: 'left', label: 'Left' },
+  { preset: 'right', label: 'Right' },
+  { preset: 'top', label: 'Top' },
+  { preset: 'bottom', label: 'Bottom' },
+  { preset: 'iso', label: 'Iso' },
+];
+
+export default function ViewPresetBar({ projection, onPreset, onProjectionChange }: {
+  projection: Projection;
+  onPreset: (preset: ViewPreset) => void;
+  onProjectionChange: (projection: Projection) => void;
+}) {
+  return (
+    <View style={styles.bar}>
+      {PRESETS.map(p => (
+        <TouchableOpacity key={p.preset} onPress={() => onPreset(p.preset)} style={styles.chip}>
+          <Text style={styles.chipText}>{p.label}</Text>
+        </TouchableOpacity>
+      ))}
+      <View style={styles.divider} />
+      {(['perspective', 'orthographic'] as const).map(p => (
+        <TouchableOpacity
+          key={p}
+          onPress={() => onProjectionChange(p)}
+          style={[styles.chip, projection === p && styles.chipActive]}
+        >
+          <Text style={[styles.chipText, projection === p && styles.chipTextActive]}>
+            {p === 'perspective' ? 'Persp' : 'Ortho'}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'center', padding: 6, backgroundColor: '#222' },
+  chip: { paddingHorizontal: 10, paddingVertical: 4, margin: 3, borderRadius: 12, backgroundColor: '#333' },
+  chipActive: { backgroundColor: '#007bff' },
+  chipText: { color: '#ccc', fontSize: 13 },
+  chipTextActive: { color: 'white' },
+  divider: { width: 1, height: 18, marginHorizontal: 6, backgroundColor: '#444' },
+});
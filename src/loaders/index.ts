@@ -0,0 +1,16 @@
+import { registerLoader } from './registry';
+import { stlLoader } from './stlLoader';
+import { plyLoader } from './plyLoader';
+import { objLoader } from './objLoader';
+import { zipLoader } from './zipLoader';
+import { threeMfLoader } from './threeMfLoader';
+
+// Sniffing runs in registration order, put formats with a reliable magic first
+registerLoader(zipLoader);
+registerLoader(threeMfLoader);
+registerLoader(plyLoader);
+registerLoader(stlLoader);
+registerLoader(objLoader);
+
+export { registerLoader, getLoaders, findLoader, getExtension } from './registry';
+export type { ModelLoader, LoadedModel, LoadContext, ModelStats, ResourceResolver } from './types';
@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader';
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader';
+import UPNG from 'upng-js';
+import { decode as decodeJpeg } from 'jpeg-js';
+import { forEachMaterial, triangleCount as countTriangles } from '../utils/scene';
+import { ModelLoader, ResourceResolver } from './types';
+import { siblingResources } from './resources';
+
+const OBJ_KEYWORDS = /^(v|vn|vt|f|o|g|s|mtllib|usemtl)\s/m;
+
+export const objLoader: ModelLoader = {
+  id: 'obj',
+  extensions: ['obj'],
+
+  sniff(buffer) {
+    const head = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 4096));
+    // OBJ is plain text, a NUL byte means binary data
+    if (head.includes(0)) return false;
+    return OBJ_KEYWORDS.test(new TextDecoder().decode(head));
+  },
+
+  async load(buffer, ctx) {
+    const objText = new TextDecoder().decode(buffer);
+    const objLoader = new OBJLoader();
+
+    const materials = await loadMaterials(objText, ctx.fileName, ctx.resources ?? siblingResources(ctx.uri));
+    if (materials) objLoader.setMaterials(materials);
+
+    const object: THREE.Object3D = objLoader.parse(objText);
+
+    let meshCount = 0;
+    let triangleCount = 0;
+    object.traverse((child: any) => {
+      if (child.isMesh) {
+        meshCount++;
+        triangleCount += countTriangles(child.geometry);
+      }
+    });
+    forEachMaterial(object, (material: any) => {
+      material.side = THREE.DoubleSide;
+      // Textured materials should show the texture untinted
+      if (material.map) material.color = new THREE.Color(0xffffff);
+      material.needsUpdate = true;
+    });
+
+    return {
+      object,
+      stats: { format: 'OBJ', objectCount: meshCount, triangleCount },
+    };
+  },
+};
+
+/**
+ * Reads the MTL files named by `mtllib`, or one named like the OBJ. MTLLoader
+ * would fetch textures by URL, which does not resolve on device, so diffuse
+ * map names are taken out before it builds materials and loaded here instead.
+ */
+async function loadMaterials(objText: string, fileName: string, resources: ResourceResolver) {
+  const names = [...objText.matchAll(/^mtllib\s+(.+?)\s*$/gm)].map(m => m[1]);
+  let mtlTexts = (await Promise.all(names.map(name => resources.readText(name)))).filter(Boolean);
+  if (mtlTexts.length === 0) {
+    mtlTexts = [await resources.readText(fileName.replace(/\.[^.]*$/, '') + '.mtl')].filter(Boolean);
+  }
+  if (mtlTexts.length === 0) return null;
+
+  const creator = new MTLLoader().parse(mtlTexts.join('\n'), '');
+  const maps: Record<string, string> = {};
+  for (const [name, info] of Object.entries<any>(creator.materialsInfo)) {
+    if (info.map_kd) {
+      maps[name] = textureFileName(info.map_kd);
+      delete info.map_kd;
+    }
+  }
+  creator.preload();
+
+  for (const [name, path] of Object.entries(maps)) {
+    const material = creator.materials[name];
+    const texture = await loadTexture(path, resources);
+    if (material && texture) {
+      material.map = texture;
+      material.needsUpdate = true;
+    }
+  }
+  return creator;
+}
+
+// Map statements put options before the file name, e.g. "map_Kd -s 1 1 1 -clamp on wood.png"
+function textureFileName(value: string) {
+  return value.replace(/^\s*(-\w+(\s+(on|off|-?[\d.]+))*\s+)*/, '').trim();
+}
+
+/**
+ * Decodes the texture in JS from the file's bytes: three's TextureLoader needs
+ * a DOM Image, which native expo-gl does not have.
+ */
+async function loadTexture(path: string, resources: ResourceResolver): Promise<THREE.Texture | null> {
+  try {
+    const data = await resources.readBytes(path);
+    if (!data) return null;
+    const mimeType = imageMimeType(data);
+    const image = mimeType && decodeImage(data, mimeType);
+    if (!image) return null; // the material keeps its colour
+
+    // Rows stay in file order, top first, as TextureLoader did with flipY off
+    const texture = new THREE.DataTexture(image.pixels, image.width, image.height);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearMipmapLinearFilter;
+    texture.generateMipmaps = true;
+    texture.needsUpdate = true;
+    // Keep the encoded file: there is no canvas to read pixels back for export
+    texture.userData.source = { data, mimeType };
+    return texture;
+  } catch (err) {
+    console.warn('Texture load failed for', path, err);
+    return null;
+  }
+}
+
+function decodeImage(data: ArrayBuffer, mimeType: 'image/png' | 'image/jpeg') {
+  if (mimeType === 'image/png') {
+    const png = UPNG.decode(data);
+    return { width: png.width, height: png.height, pixels: new Uint8Array(UPNG.toRGBA8(png)[0]) };
+  }
+  const jpeg = decodeJpeg(data, { useTArray: true, formatAsRGBA: true });
+  return { width: jpeg.width, height: jpeg.height, pixels: jpeg.data };
+}
+
+function imageMimeType(data: ArrayBuffer): 'image/png' | 'image/jpeg' | null {
+  const b = new Uint8Array(data, 0, Math.min(data.byteLength, 4));
+  if (b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47) return 'image/png';
+  if (b[0] === 0xff && b[1] === 0xd8) return 'image/jpeg';
+  return null;
+}
@@ -0,0 +1,43 @@
+import * as THREE from 'three';
+import { parsePLY } from '../utils/parsePLY';
+import { ModelLoader } from './types';
+
+export const plyLoader: ModelLoader = {
+  id: 'ply',
+  extensions: ['ply'],
+
+  sniff(buffer) {
+    const magic = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 4));
+    return magic[0] === 0x70 && magic[1] === 0x6c && magic[2] === 0x79 && (magic[3] === 0x0a || magic[3] === 0x0d);
+  },
+
+  async load(buffer) {
+    const { geometry, format, hasColors, hasAlpha, isPointCloud, vertexCount, faceCount } = parsePLY(buffer);
+
+    // Files without faces are point clouds, drawn with a fixed pixel size
+    const object = isPointCloud
+      ? new THREE.Points(geometry, new THREE.PointsMaterial({
+        vertexColors: hasColors,
+        color: hasColors ? undefined : 0x2194ce,
+        size: 2,
+        sizeAttenuation: false,
+        transparent: hasAlpha,
+      }))
+      : new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({
+        vertexColors: hasColors,
+        color: hasColors ? undefined : 0x2194ce,
+        flatShading: false,
+        side: THREE.DoubleSide,
+        metalness: 0.0,
+        roughness: 1.0,
+        transparent: hasAlpha,
+      }));
+
+    return {
+      object,
+      stats: isPointCloud
+        ? { format: `PLY (${format.toUpperCase()})`, pointCount: vertexCount }
+        : { format: `PLY (${format.toUpperCase()})`, vertexCount, faceCount },
+    };
+  },
+};
@@ -0,0 +1,43 @@
+import { ModelLoadError } from '../utils/errors';
+import { ModelLoader } from './types';
+
+const loaders: ModelLoader[] = [];
+
+export function registerLoader(loader: ModelLoader) {
+  const existing = loaders.findIndex(l => l.id === loader.id);
+  if (existing >= 0) loaders.splice(existing, 1, loader);
+  else loaders.push(loader);
+}
+
+export function getLoaders(): readonly ModelLoader[] {
+  return loaders;
+}
+
+export function getExtension(fileName: string) {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Picks the loader for a file. The extension is trusted when its loader also
+ * recognises the bytes; otherwise the magic bytes decide, so a mislabelled or
+ * extension-less file still opens. An extension match is the last resort and
+ * lets the loader report what is wrong with the file.
+ */
+export function findLoader(fileName: string, buffer: ArrayBuffer): ModelLoader {
+  const ext = getExtension(fileName);
+  const byExtension = loaders.find(l => l.extensions.includes(ext));
+
+  if (byExtension && byExtension.sniff(buffer)) return byExtension;
+
+  const bySniff = loaders.find(l => l.sniff(buffer));
+  if (bySniff) return bySniff;
+
+  if (byExtension) return byExtension;
+
+  const supported = loaders.flatMap(l => l.extensions.map(e => `.${e}`)).join(', ');
+  throw new ModelLoadError(
+    'Unsupported file',
+    `${fileName} is not a model format this app can open. Supported formats: ${supported}.`
+  );
+}
@@ -0,0 +1,78 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import JSZip from 'jszip';
+import { decode as decodeBase64 } from 'base64-arraybuffer';
+import { ResourceResolver } from './types';
+
+/**
+ * Resolves references next to the model file. This only finds anything when
+ * the model was opened in place; the document picker copies single files.
+ */
+export function siblingResources(modelUri: string): ResourceResolver {
+  const basePath = modelUri.substring(0, modelUri.lastIndexOf('/') + 1);
+  return {
+    async readText(path) {
+      const uri = basePath + normalizePath(path);
+      try {
+        const info = await FileSystem.getInfoAsync(uri);
+        return info.exists ? await FileSystem.readAsStringAsync(uri, { encoding: 'utf8' }) : null;
+      } catch {
+        return null;
+      }
+    },
+    async readBytes(path) {
+      const uri = basePath + normalizePath(path);
+      try {
+        const info = await FileSystem.getInfoAsync(uri);
+        return info.exists ? decodeBase64(await FileSystem.readAsStringAsync(uri, { encoding: 'base64' })) : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Resolves references inside a ZIP archive, relative to the entry at
+ * `modelPath`. Exporters disagree on separators and letter case, so paths are
+ * matched case-insensitively and, failing that, by file name alone.
+ */
+export function zipResources(zip: JSZip, modelPath: string): ResourceResolver {
+  const baseDir = modelPath.includes('/') ? modelPath.slice(0, modelPath.lastIndexOf('/') + 1) : '';
+  const byPath = new Map<string, JSZip.JSZipObject>();
+  const byName = new Map<string, JSZip.JSZipObject>();
+  zip.forEach((path, entry) => {
+    if (entry.dir) return;
+    const key = normalizePath(path).toLowerCase();
+    byPath.set(key, entry);
+    const name = key.slice(key.lastIndexOf('/') + 1);
+    if (!byName.has(name)) byName.set(name, entry);
+  });
+
+  const find = (path: string) => {
+    const relative = normalizePath(baseDir + path).toLowerCase();
+    const name = relative.slice(relative.lastIndexOf('/') + 1);
+    return byPath.get(relative) ?? byPath.get(normalizePath(path).toLowerCase()) ?? byName.get(name) ?? null;
+  };
+
+  return {
+    async readText(path) {
+      const entry = find(path);
+      return entry ? entry.async('string') : null;
+    },
+    async readBytes(path) {
+      const entry = find(path);
+      return entry ? entry.async('arraybuffer') : null;
+    },
+  };
+}
+
+/** Forward slashes, no "." segments, ".." applied, no leading slash. */
+export function normalizePath(path: string) {
+  const parts: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
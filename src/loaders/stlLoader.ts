@@ -0,0 +1,38 @@
+import * as THREE from 'three';
+import { parseSTL, detectFormat } from '../utils/parseSTL';
+import { ModelLoader } from './types';
+
+export const stlLoader: ModelLoader = {
+  id: 'stl',
+  extensions: ['stl'],
+
+  sniff(buffer) {
+    if (buffer.byteLength >= 84) {
+      const faces = new DataView(buffer).getUint32(80, true);
+      if (84 + 50 * faces === buffer.byteLength) return true;
+    }
+    const head = new TextDecoder().decode(buffer.slice(0, 512));
+    return /^\s*solid/.test(head) && detectFormat(buffer) === 'ascii';
+  },
+
+  async load(buffer, ctx) {
+    const { geometry, format, triangleCount } = await parseSTL(buffer, {
+      onProgress: ctx.onProgress,
+    });
+
+    // Facet colours from the attribute bytes replace the plain grey
+    const hasColors = geometry.hasAttribute('color');
+    const material = new THREE.MeshStandardMaterial({
+      color: hasColors ? 0xffffff : 0x6c757d,
+      vertexColors: hasColors,
+      metalness: 0.2,
+      roughness: 0.5,
+      side: THREE.DoubleSide,
+    });
+
+    return {
+      object: new THREE.Mesh(geometry, material),
+      stats: { format: `STL (${format.toUpperCase()})`, triangleCount },
+    };
+  },
+};
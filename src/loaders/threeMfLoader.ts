@@ -0,0 +1,21 @@
+import { parse3MF } from '../utils/parse3MF';
+import { ModelLoader } from './types';
+
+export const threeMfLoader: ModelLoader = {
+  id: '3mf',
+  extensions: ['3mf'],
+
+  // 3MF is a ZIP package; only the extension tells it apart from any other archive
+  sniff(buffer) {
+    const head = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 4));
+    return head.length === 4 && head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04;
+  },
+
+  async load(buffer, ctx) {
+    const { object, unit, objectCount, triangleCount } = await parse3MF(buffer, ctx.onProgress);
+    return {
+      object,
+      stats: { format: '3MF', objectCount, triangleCount, unit },
+    };
+  },
+};
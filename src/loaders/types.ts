@@ -0,0 +1,41 @@
+import * as THREE from 'three';
+
+/** Figures shown in the viewer's info panel; loaders fill in what applies. */
+export type ModelStats = {
+  format: string;
+  triangleCount?: number;
+  vertexCount?: number;
+  faceCount?: number;
+  pointCount?: number;
+  objectCount?: number;
+  /** Length unit declared by the file, e.g. "millimeter" for 3MF. */
+  unit?: string;
+};
+
+export type LoadContext = {
+  fileName: string;
+  uri: string;
+  onProgress?: (fraction: number) => void;
+  /** Where to find files the model references; defaults to the model's own folder. */
+  resources?: ResourceResolver;
+};
+
+/** Looks up files a model refers to by relative path, such as an OBJ's MTL and textures. */
+export type ResourceResolver = {
+  readText: (path: string) => Promise<string | null>;
+  readBytes: (path: string) => Promise<ArrayBuffer | null>;
+};
+
+export type LoadedModel = {
+  object: THREE.Object3D;
+  stats: ModelStats;
+};
+
+export type ModelLoader = {
+  id: string;
+  /** Lower-case extensions without the dot. */
+  extensions: string[];
+  /** Returns true when the first bytes look like this format. */
+  sniff: (buffer: ArrayBuffer) => boolean;
+  load: (buffer: ArrayBuffer, ctx: LoadContext) => Promise<LoadedModel>;
+};
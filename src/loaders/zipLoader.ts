@@ -0,0 +1,86 @@
+import * as THREE from 'three';
+import JSZip from 'jszip';
+import { ModelLoadError } from '../utils/errors';
+import { getExtension, getLoaders } from './registry';
+import { zipResources } from './resources';
+import { ModelLoader, ModelStats } from './types';
+
+// Folders and files archivers add that are never part of the model
+const JUNK_ENTRY = /(^|\/)(__MACOSX|\.[^/]*)(\/|$)/;
+
+/**
+ * Opens every supported model in a ZIP archive. Each model resolves the files
+ * it references (MTL, textures) inside the archive, relative to itself.
+ */
+export const zipLoader: ModelLoader = {
+  id: 'zip',
+  extensions: ['zip'],
+
+  sniff(buffer) {
+    const head = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 4));
+    return head.length === 4 && head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04;
+  },
+
+  async load(buffer, ctx) {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(buffer);
+    } catch (err: any) {
+      throw new ModelLoadError('Unreadable ZIP file', `${ctx.fileName} could not be unpacked: ${err.message}`);
+    }
+
+    const models: { path: string; loader: ModelLoader }[] = [];
+    zip.forEach((path, entry) => {
+      if (entry.dir || JUNK_ENTRY.test(path)) return;
+      const ext = getExtension(path);
+      const loader = getLoaders().find(l => l.id !== 'zip' && l.extensions.includes(ext));
+      if (loader) models.push({ path, loader });
+    });
+
+    if (models.length === 0) {
+      const supported = getLoaders()
+        .filter(l => l.id !== 'zip')
+        .flatMap(l => l.extensions.map(e => `.${e}`))
+        .join(', ');
+      throw new ModelLoadError(
+        'No model in ZIP',
+        `${ctx.fileName} does not contain a model file. Supported formats: ${supported}.`
+      );
+    }
+
+    const group = new THREE.Group();
+    const parts: ModelStats[] = [];
+    for (let i = 0; i < models.length; i++) {
+      const { path, loader } = models[i];
+      const data = await zip.file(path)!.async('arraybuffer');
+      const { object, stats } = await loader.load(data, {
+        fileName: path.slice(path.lastIndexOf('/') + 1),
+        uri: ctx.uri,
+        resources: zipResources(zip, path),
+        onProgress: fraction => ctx.onProgress?.((i + fraction) / models.length),
+      });
+      object.name = object.name || path;
+      group.add(object);
+      parts.push(stats);
+    }
+
+    if (parts.length === 1) {
+      return { object: group, stats: { ...parts[0], format: `ZIP (${parts[0].format})` } };
+    }
+    return { object: group, stats: mergeStats(parts) };
+  },
+};
+
+function mergeStats(parts: ModelStats[]): ModelStats {
+  const sum = (key: Exclude<keyof ModelStats, 'format' | 'unit'>) =>
+    parts.some(p => p[key] !== undefined) ? parts.reduce((n, p) => n + (p[key] ?? 0), 0) : undefined;
+  return {
+    format: `ZIP (${parts.length} models)`,
+    objectCount: parts.reduce((n, p) => n + (p.objectCount ?? 1), 0),
+    triangleCount: sum('triangleCount'),
+    vertexCount: sum('vertexCount'),
+    faceCount: sum('faceCount'),
+    pointCount: sum('pointCount'),
+    unit: parts.every(p => p.unit === parts[0].unit) ? parts[0].unit : undefined,
+  };
+}
@@ -0,0 +1,433 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  Alert,
+  ActivityIndicator,
+  TouchableOpacity,
+  Platform,
+  useColorScheme,
+  PanResponder,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystemLegacy from 'expo-file-system/legacy';
+import { GLView } from 'expo-gl';
+import { Renderer } from 'expo-three';
+import * as THREE from 'three';
+import { decode as decodeBase64 } from 'base64-arraybuffer';
+import { Ionicons } from '@expo/vector-icons';
+import IconBtn from '../components/IconBtn';
+import ModelViewer from './ModelViewer';
+import type { LoadedModel } from '../loaders';
+import {
+  parseDicomSlice,
+  groupSeries,
+  sliceToRGBA,
+  defaultWindow,
+  seriesToVolume,
+  DicomSeries,
+  DicomSlice,
+} from '../utils/parseDICOM';
+import { marchingCubes } from '../utils/marchingCubes';
+
+// Pixels of vertical drag per slice step
+const DRAG_STEP = 8;
+
+const THRESHOLD_PRESETS = [
+  { label: 'Bone', hu: 300 },
+  { label: 'Soft tissue', hu: -300 },
+];
+
+// Shown by ModelViewer; marching cubes runs on the pixel and slice spacing, which DICOM gives in millimetres
+type Isosurface = LoadedModel & { name: string; geometry: THREE.BufferGeometry };
+
+export default function DicomViewer() {
+  const [series, setSeries] = useState<DicomSeries[]>([]);
+  const [seriesIndex, setSeriesIndex] = useState(0);
+  const [sliceIndex, setSliceIndex] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [skipped, setSkipped] = useState(0);
+  const [mode, setMode] = useState<'2d' | '3d'>('2d');
+  const [threshold, setThreshold] = useState(THRESHOLD_PRESETS[0].hu);
+  const [customThreshold, setCustomThreshold] = useState('');
+  const [surface, setSurface] = useState<Isosurface | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const hasLoadedRef = useRef(false);
+  const seriesRef = useRef<DicomSeries | null>(null);
+  const sliceIndexRef = useRef(0);
+  const windowRef = useRef({ center: 40, width: 400 });
+  const dirtyRef = useRef(true);
+  const dragStartIndex = useRef(0);
+  const colorScheme = useColorScheme();
+
+  const current = series[seriesIndex] ?? null;
+
+  useEffect(() => {
+    seriesRef.current = current;
+    if (current) {
+      windowRef.current = defaultWindow(current.slices[Math.floor(current.slices.length / 2)]);
+    }
+    dirtyRef.current = true;
+  }, [current]);
+
+  useEffect(() => {
+    sliceIndexRef.current = sliceIndex;
+    dirtyRef.current = true;
+  }, [sliceIndex]);
+
+  const stepSlice = (delta: number) => {
+    const count = seriesRef.current?.slices.length ?? 0;
+    if (count === 0) return;
+    setSliceIndex(i => Math.min(Math.max(i + delta, 0), count - 1));
+  };
+
+  // Vertical drag scrolls through the stack
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        dragStartIndex.current = sliceIndexRef.current;
+      },
+      onPanResponderMove: (_e, gestureState) => {
+        const count = seriesRef.current?.slices.length ?? 0;
+        if (count === 0) return;
+        const next = dragStartIndex.current + Math.round(gestureState.dy / DRAG_STEP);
+        setSliceIndex(Math.min(Math.max(next, 0), count - 1));
+      },
+    })
+  ).current;
+
+  const loadSlices = async (files: { name: string; read: () => Promise<ArrayBuffer> }[]) => {
+    setLoading(true);
+    const slices: DicomSlice[] = [];
+    let failed = 0;
+    for (const file of files) {
+      try {
+        slices.push(parseDicomSlice(await file.read(), file.name));
+      } catch (err) {
+        failed++;
+        console.warn('Skipping non-DICOM file', file.name, err);
+      }
+    }
+    setLoading(false);
+
+    if (slices.length === 0) {
+      Alert.alert('DICOM Load Error', 'None of the selected files could be read as DICOM images');
+      return;
+    }
+
+    const grouped = groupSeries(slices);
+    hasLoadedRef.current = false;
+    setSkipped(failed);
+    setSeries(grouped);
+    setSeriesIndex(0);
+    setSliceIndex(Math.floor(grouped[0].slices.length / 2));
+  };
+
+  const handleGenerate = async () => {
+    if (!current) return;
+    const hu = customThreshold.trim() !== '' ? Number(customThreshold) : threshold;
+    if (!Number.isFinite(hu)) {
+      Alert.alert('Invalid threshold', 'Enter the threshold in Hounsfield units, e.g. 300');
+      return;
+    }
+
+    try {
+      setProgress(0);
+      // Let the progress overlay render before the volume is built
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const volume = seriesToVolume(current);
+      const { geometry, triangleCount } = await marchingCubes(volume, hu, setProgress);
+      if (triangleCount === 0) {
+        Alert.alert('Empty surface', `No voxels cross ${hu} HU in this series`);
+        return;
+      }
+      const material = new THREE.MeshStandardMaterial({
+        color: 0xe3dac9,
+        metalness: 0.1,
+        roughness: 0.6,
+        side: THREE.DoubleSide,
+      });
+      surface?.geometry.dispose();
+      setSurface({
+        name: `isosurface_${hu}HU.stl`,
+        object: new THREE.Mesh(geometry, material),
+        stats: { format: `Isosurface (${hu} HU)`, triangleCount, unit: 'mm' },
+        geometry,
+      });
+    } catch (err: any) {
+      Alert.alert('Isosurface Error', err.message || 'Could not generate the mesh');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handlePickFiles = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+        multiple: true,
+      });
+
+      if (result.assets && result.assets.length > 0) {
+        await loadSlices(result.assets.map(asset => ({
+          name: asset.name || 'Unnamed.dcm',
+          read: async () => (await fetch(asset.uri)).arrayBuffer(),
+        })));
+      }
+    } catch (err: any) {
+      setLoading(false);
+      Alert.alert('File Picker Error', err.message || 'Something went wrong');
+    }
+  };
+
+  // Android only: the document picker cannot select directories, SAF can
+  const handlePickFolder = async () => {
+    try {
+      const saf = FileSystemLegacy.StorageAccessFramework;
+      const permissions = await saf.requestDirectoryPermissionsAsync();
+      if (!permissions.granted) return;
+
+      const uris = await saf.readDirectoryAsync(permissions.directoryUri);
+      await loadSlices(uris.map(uri => ({
+        name: decodeURIComponent(uri).split('/').pop() || 'Unnamed.dcm',
+        read: async () => decodeBase64(await saf.readAsStringAsync(uri, { encoding: 'base64' })),
+      })));
+    } catch (err: any) {
+      setLoading(false);
+      Alert.alert('Folder Picker Error', err.message || 'Something went wrong');
+    }
+  };
+
+  const onContextCreate = async (gl: WebGLRenderingContext & { endFrameEXP: () => void }) => {
+    if (hasLoadedRef.current || !seriesRef.current) return;
+    hasLoadedRef.current = true;
+
+    const { drawingBufferWidth: w, drawingBufferHeight: h } = gl;
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(colorScheme === 'dark' ? '#111' : '#000');
+
+    const aspect = w / h;
+    const camera = new THREE.OrthographicCamera(-aspect, aspect, 1, -1, 0.1, 10);
+    camera.position.set(0, 0, 5);
+
+    const renderer = new Renderer({ gl });
+    renderer.setSize(w, h);
+
+    const plane = new THREE.PlaneGeometry(1, 1);
+    // DICOM rows run top to bottom, texture rows bottom to top
+    const uv = plane.getAttribute('uv');
+    for (let i = 0; i < uv.count; i++) uv.setY(i, 1 - uv.getY(i));
+
+    const material = new THREE.MeshBasicMaterial({ side: THREE.DoubleSide });
+    const quad = new THREE.Mesh(plane, material);
+    scene.add(quad);
+
+    let texture: THREE.DataTexture | null = null;
+    let rgba: Uint8Array | null = null;
+
+    const updateSlice = () => {
+      const s = seriesRef.current;
+      if (!s) return;
+      const slice = s.slices[Math.min(sliceIndexRef.current, s.slices.length - 1)];
+
+      if (!texture || texture.image.width !== slice.columns || texture.image.height !== slice.rows) {
+        texture?.dispose();
+        rgba = new Uint8Array(slice.columns * slice.rows * 4);
+        texture = new THREE.DataTexture(rgba, slice.columns, slice.rows, THREE.RGBAFormat);
+        texture.minFilter = THREE.LinearFilter;
+        texture.magFilter = THREE.LinearFilter;
+        material.map = texture;
+        material.needsUpdate = true;
+
+        // Keep the physical aspect ratio and fit inside the view
+        const physW = slice.columns * slice.pixelSpacing[1];
+        const physH = slice.rows * slice.pixelSpacing[0];
+        const fit = Math.min((2 * aspect) / physW, 2 / physH) * 0.95;
+        quad.scale.set(physW * fit, physH * fit, 1);
+      }
+
+      const { center, width } = windowRef.current;
+      sliceToRGBA(slice, center, width, rgba!);
+      texture.needsUpdate = true;
+    };
+
+    const animate = () => {
+      requestAnimationFrame(animate);
+      if (dirtyRef.current) {
+        dirtyRef.current = false;
+        updateSlice();
+      }
+      renderer.render(scene, camera);
+      gl.endFrameEXP();
+    };
+    animate();
+  };
+
+  const slice = current?.slices[Math.min(sliceIndex, current.slices.length - 1)] ?? null;
+
+  return (
+    <View style={styles.container}>
+      {!current ? (
+        <View style={styles.center}>
+          <Text style={styles.info}>Select the .dcm files of a CT/MR series to view</Text>
+          {loading ? (
+            <View style={{ marginTop: 20 }}>
+              <ActivityIndicator size="large" color="#6c757d" />
+              <Text style={styles.info}>Reading DICOM...</Text>
+            </View>
+          ) : (
+            <View style={styles.pickRow}>
+              <TouchableOpacity onPress={handlePickFiles} style={styles.pickButton}>
+                <Ionicons name="documents-outline" size={30} color="#007bff" />
+              </TouchableOpacity>
+              {Platform.OS === 'android' && (
+                <TouchableOpacity onPress={handlePickFolder} style={styles.pickButton}>
+                  <Ionicons name="folder-open-outline" size={30} color="#007bff" />
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+      ) : (
+        <>
+          {series.length > 1 && (
+            <ScrollView horizontal contentContainerStyle={styles.seriesBar}>
+              {series.map((s, i) => (
+                <TouchableOpacity
+                  key={s.uid}
+                  onPress={() => {
+                    surface?.geometry.dispose();
+                    setSurface(null);
+                    setSeriesIndex(i);
+                    setSliceIndex(Math.floor(s.slices.length / 2));
+                  }}
+                  style={[styles.seriesChip, i === seriesIndex && styles.seriesChipActive]}
+                >
+                  <Text style={styles.seriesChipText}>
+                    {s.description || s.modality || `Series ${i + 1}`} ({s.slices.length})
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          {mode === '3d' && (
+            <View style={styles.thresholdBar}>
+              {THRESHOLD_PRESETS.map(p => (
+                <TouchableOpacity
+                  key={p.label}
+                  onPress={() => {
+                    setThreshold(p.hu);
+                    setCustomThreshold('');
+                  }}
+                  style={[styles.seriesChip, customThreshold === '' && threshold === p.hu && styles.seriesChipActive]}
+                >
+                  <Text style={styles.seriesChipText}>{p.label} ({p.hu} HU)</Text>
+                </TouchableOpacity>
+              ))}
+              <TextInput
+                value={customThreshold}
+                onChangeText={setCustomThreshold}
+                placeholder="Custom HU"
+                placeholderTextColor="#999"
+                keyboardType="numbers-and-punctuation"
+                style={styles.thresholdInput}
+              />
+              <IconBtn icon="play" onPress={handleGenerate} disabled={progress !== null} />
+            </View>
+          )}
+
+          {progress !== null && (
+            <View style={styles.loader}>
+              <ActivityIndicator size="large" color="#6c757d" />
+              <Text style={styles.info}>Extracting surface... {Math.round(progress * 100)}%</Text>
+            </View>
+          )}
+
+          {mode === '2d' ? (
+            <View style={styles.viewer} {...panResponder.panHandlers}>
+              <GLView style={{ flex: 1 }} onContextCreate={onContextCreate} />
+            </View>
+          ) : surface ? (
+            <ModelViewer key={surface.geometry.uuid} preloaded={surface} />
+          ) : (
+            <View style={[styles.viewer, styles.center]}>
+              <Text style={styles.info}>Pick a threshold and press play to build the 3D mesh</Text>
+            </View>
+          )}
+
+          {mode === '2d' && slice && (
+            <View style={styles.infoBoxInline}>
+              <Text style={styles.infoText}>
+                Slice {sliceIndex + 1} / {current.slices.length}
+                {slice.imagePosition ? ` | Pos: ${slice.imagePosition[2].toFixed(1)} mm` : ''}
+              </Text>
+              <Text style={styles.infoText}>
+                Spacing: {slice.pixelSpacing[0].toFixed(2)} × {slice.pixelSpacing[1].toFixed(2)} mm
+                {' | '}Thickness: {(slice.sliceThickness ?? current.sliceSpacing).toFixed(2)} mm
+              </Text>
+              <Text style={styles.infoText}>
+                {current.patientName || 'Anonymous'}{current.patientID ? ` (${current.patientID})` : ''}
+              </Text>
+              <Text style={styles.infoText}>
+                {[current.modality, current.studyDescription, current.studyDate].filter(Boolean).join(' | ')}
+              </Text>
+              {skipped > 0 && <Text style={styles.infoText}>Skipped {skipped} unreadable file(s)</Text>}
+            </View>
+          )}
+
+          <View style={styles.iconBar}>
+            {mode === '2d' && (
+              <>
+                <IconBtn icon="chevrons-up" onPress={() => stepSlice(-10)} />
+                <IconBtn icon="chevron-up" onPress={() => stepSlice(-1)} />
+                <IconBtn icon="chevron-down" onPress={() => stepSlice(1)} />
+                <IconBtn icon="chevrons-down" onPress={() => stepSlice(10)} />
+              </>
+            )}
+            <IconBtn icon={mode === '2d' ? 'box' : 'layers'} onPress={() => {
+              hasLoadedRef.current = false;
+              dirtyRef.current = true;
+              setMode(mode === '2d' ? '3d' : '2d');
+            }} disabled={progress !== null} />
+            <IconBtn icon="folder-open-outline" pack="ion" onPress={() => {
+              surface?.geometry.dispose();
+              setSurface(null);
+              setMode('2d');
+              setSeries([]);
+              setSeriesIndex(0);
+              setSliceIndex(0);
+              setSkipped(0);
+            }} disabled={loading} />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  viewer: { flex: 1, marginVertical: 10, minHeight: 300 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', minHeight: 150 },
+  info: { color: '#6c757d', fontSize: 16, marginTop: 10, textAlign: 'center' },
+  pickRow: { flexDirection: 'row', marginTop: 20 },
+  pickButton: { marginHorizontal: 12 },
+  seriesBar: { paddingHorizontal: 6, paddingTop: 8 },
+  seriesChip: { paddingHorizontal: 10, paddingVertical: 6, marginHorizontal: 4, borderRadius: 12, backgroundColor: '#333' },
+  seriesChipActive: { backgroundColor: '#007bff' },
+  seriesChipText: { color: 'white', fontSize: 13 },
+  thresholdBar: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'center', paddingTop: 8 },
+  thresholdInput: { minWidth: 90, marginHorizontal: 4, paddingHorizontal: 8, paddingVertical: 4, borderRadius: 6, backgroundColor: '#fff', color: '#222' },
+  loader: { position: 'absolute', zIndex: 10, alignSelf: 'center', top: '45%', alignItems: 'center' },
+  infoBoxInline: { marginTop: 0, padding: 3, borderRadius: 6, backgroundColor: '#222' },
+  infoText: { color: 'white', fontSize: 14, textAlign: 'center' },
+  iconBar: { flexDirection: 'row', justifyContent: 'center', paddingVertical: 8, backgroundColor: '#f8f9fa', borderTopWidth: 1, borderColor: '#dee2e6' },
+});
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Image, Alert, StyleSheet } from 'react-native';
+import { Feather, Ionicons } from '@expo/vector-icons';
+import {
+  LibraryEntry,
+  formatBytes,
+  loadLibrary,
+  removeFromLibrary,
+  setFavourite,
+} from '../utils/library';
+
+type SortKey = 'recent' | 'name' | 'size';
+
+const SORTS: { key: SortKey; label: string }[] = [
+  { key: 'recent', label: 'Recent' },
+  { key: 'name', label: 'Name' },
+  { key: 'size', label: 'Size' },
+];
+
+/** Recently opened models, shown while no model is open. */
+export default function ModelLibrary({ supported, onOpen, onPickFile }: {
+  supported: string;
+  onOpen: (entry: LibraryEntry) => void;
+  onPickFile: () => void;
+}) {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<SortKey>('recent');
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+
+  useEffect(() => {
+    loadLibrary().then(setEntries);
+  }, []);
+
+  const handleDelete = (entry: LibraryEntry) => {
+    Alert.alert('Remove from library', `Delete the library copy of ${entry.fileName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setEntries([...(await removeFromLibrary(entry.id))]);
+          } catch (err: any) {
+            Alert.alert('Delete failed', err.message || 'Could not remove the file');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleFavourite = async (entry: LibraryEntry) => {
+    try {
+      setEntries([...(await setFavourite(entry.id, !entry.favourite))]);
+    } catch (err: any) {
+      Alert.alert('Update failed', err.message || 'Could not save the favourite');
+    }
+  };
+
+  const needle = query.trim().toLowerCase();
+  const shown = entries
+    .filter(e => (!favouritesOnly || e.favourite) && (!needle || e.fileName.toLowerCase().includes(needle) || e.format.toLowerCase().includes(needle)))
+    .sort((a, b) =>
+      sort === 'name' ? a.fileName.localeCompare(b.fileName)
+        : sort === 'size' ? b.byteSize - a.byteSize
+          : b.lastOpened - a.lastOpened
+    );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.info}>Open a model ({supported})</Text>
+        <TouchableOpacity onPress={onPickFile} style={styles.pick}>
+          <Ionicons name="folder-open-outline" size={30} color="#007bff" />
+        </TouchableOpacity>
+      </View>
+
+      {entries.length > 0 && (
+        <>
+          <TextInput
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search recent models"
+            placeholderTextColor="#6c757d"
+            style={styles.search}
+          />
+          <View style={styles.toolbar}>
+            {SORTS.map(s => (
+              <TouchableOpacity key={s.key} onPress={() => setSort(s.key)} style={[styles.chip, sort === s.key && styles.chipActive]}>
+                <Text style={[styles.chipText, sort === s.key && styles.chipTextActive]}>{s.label}</Text>
+              </TouchableOpacity>
+            ))}
+            <View style={styles.spacer} />
+            <TouchableOpacity onPress={() => setFavouritesOnly(!favouritesOnly)} style={[styles.chip, favouritesOnly && styles.chipActive]}>
+              <Ionicons name={favouritesOnly ? 'star' : 'star-outline'} size={14} color={favouritesOnly ? 'white' : '#ccc'} />
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+
+      {shown.map(entry => (
+        <TouchableOpacity key={entry.id} onPress={() => onOpen(entry)} style={styles.row}>
+          {entry.thumbnailUri ? (
+            <Image source={{ uri: entry.thumbnailUri }} style={styles.thumbnail} />
+          ) : (
+            <View style={[styles.thumbnail, styles.placeholder]}>
+              <Feather name="box" size={22} color="#6c757d" />
+            </View>
+          )}
+          <View style={styles.details}>
+            <Text style={styles.name} numberOfLines={1}>{entry.fileName}</Text>
+            <Text style={styles.meta} numberOfLines={1}>{formatDetails(entry)}</Text>
+            <Text style={styles.meta}>{new Date(entry.lastOpened).toLocaleString()}</Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => handleFavourite(entry)}
+            style={styles.action}
+          >
+            <Ionicons name={entry.favourite ? 'star' : 'star-outline'} size={18} color={entry.favourite ? '#ffc107' : '#ccc'} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(entry)} style={styles.action}>
+            <Feather name="trash-2" size={18} color="#ccc" />
+          </TouchableOpacity>
+        </TouchableOpacity>
+      ))}
+
+      {entries.length > 0 && shown.length === 0 && <Text style={styles.empty}>No models match</Text>}
+    </View>
+  );
+}
+
+function formatDetails(entry: LibraryEntry) {
+  const parts = [entry.format];
+  if (entry.triangleCount !== undefined) parts.push(`${entry.triangleCount.toLocaleString()} triangles`);
+  else if (entry.vertexCount !== undefined) parts.push(`${entry.vertexCount.toLocaleString()} vertices`);
+  else if (entry.pointCount !== undefined) parts.push(`${entry.pointCount.toLocaleString()} points`);
+  parts.push(formatBytes(entry.byteSize));
+  return parts.join(' · ');
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, minHeight: 150, padding: 8 },
+  header: { alignItems: 'center', paddingVertical: 10 },
+  info: { color: '#6c757d', fontSize: 16, textAlign: 'center' },
+  pick: { marginTop: 10 },
+  search: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 6, backgroundColor: '#fff', color: '#222' },
+  toolbar: { flexDirection: 'row', alignItems: 'center', marginVertical: 6 },
+  chip: { paddingHorizontal: 10, paddingVertical: 4, marginRight: 6, borderRadius: 12, backgroundColor: '#333' },
+  chipActive: { backgroundColor: '#007bff' },
+  chipText: { color: '#ccc', fontSize: 13 },
+  chipTextActive: { color: 'white' },
+  spacer: { flex: 1 },
+  row: { flexDirection: 'row', alignItems: 'center', padding: 6, marginBottom: 4, borderRadius: 6, backgroundColor: '#2c2c2c' },
+  thumbnail: { width: 56, height: 56, borderRadius: 4, backgroundColor: '#1a1a1a' },
+  placeholder: { alignItems: 'center', justifyContent: 'center' },
+  details: { flex: 1, marginLeft: 10 },
+  name: { color: 'white', fontSize: 14, fontWeight: '600' },
+  meta: { color: '#adb5bd', fontSize: 12, marginTop: 1 },
+  action: { paddingHorizontal: 8 },
+  empty: { color: '#6c757d', fontSize: 13, textAlign: 'center', marginTop: 8 },
+});
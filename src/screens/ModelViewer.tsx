@@ -0,0 +1,1369 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  Alert,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { GLView } from 'expo-gl';
+import { captureRef } from 'react-native-view-shot';
+import { Renderer } from 'expo-three';
+import * as THREE from 'three';
+import { Feather } from '@expo/vector-icons';
+import IconBtn from '../components/IconBtn';
+import MeshReportPanel from '../components/MeshReportPanel';
+import MeasurementPanel from '../components/MeasurementPanel';
+import SectionPanel from '../components/SectionPanel';
+import ViewPresetBar from '../components/ViewPresetBar';
+import UnitBar from '../components/UnitBar';
+import LandmarkPanel from '../components/LandmarkPanel';
+import LayerPanel from '../components/LayerPanel';
+import DeviationPanel from '../components/DeviationPanel';
+import DecimatePanel from '../components/DecimatePanel';
+import RepairPanel from '../components/RepairPanel';
+import RenderPanel from '../components/RenderPanel';
+import ModelLibrary from './ModelLibrary';
+import { findLoader, getLoaders, LoadedModel, ModelStats } from '../loaders';
+import { LandmarkFileError, ModelLoadError } from '../utils/errors';
+import {
+  forEachMaterial,
+  collectTriangles,
+  localBounds,
+  removeOverlay,
+  hasVertexColors,
+  setVertexColorsEnabled,
+} from '../utils/scene';
+import { Layer, applyLayer, createLayer } from '../utils/layers';
+import {
+  ColorMapName,
+  DeviationResult,
+  applyDeviationColors,
+  clearDeviationColors,
+  computeDeviation,
+} from '../utils/deviation';
+import {
+  Decimation,
+  decimatableTriangles,
+  decimateObject,
+  finishDecimation,
+  showDecimated,
+} from '../utils/decimate';
+import { Repair, RepairOptions, finishRepair, repairObject } from '../utils/repair';
+import {
+  RenderMode,
+  Shading,
+  addWireOverlay,
+  applyModelColor,
+  applyRenderMode,
+  applyShading,
+  meanCurvature,
+  removeWireOverlay,
+  syncWireOverlay,
+} from '../utils/renderModes';
+import {
+  OrbitControls,
+  Projection,
+  createOrbitResponder,
+  createWheelHandler,
+} from '../utils/orbitControls';
+import { analyzeMesh, buildProblemOverlay, MeshReport } from '../utils/meshAnalysis';
+import {
+  Measurement,
+  MeasureTool,
+  POINTS_PER_TOOL,
+  buildMeasureOverlay,
+  createMeasurement,
+  pickPoint,
+  pickSurface,
+} from '../utils/measure';
+import {
+  Landmark,
+  buildLandmarkOverlay,
+  createLandmark,
+  loadLandmarks,
+  projectLandmarks,
+  saveLandmarks,
+} from '../utils/landmarks';
+import { hashBuffer } from '../utils/hash';
+import { addToLibrary, setThumbnail } from '../utils/library';
+import {
+  SectionPlane,
+  SECTION_COLORS,
+  buildSectionOverlay,
+  defaultSectionPlane,
+  sectionToPlane,
+  updateWorldPlanes,
+} from '../utils/section';
+import { exportSTL } from '../utils/exportSTL';
+import { exportGLB } from '../utils/exportGLB';
+import { saveExport, replaceExtension } from '../utils/files';
+import { LengthUnit, UNIT_LABELS, Units, formatLength, guessUnit, unitScale } from '../utils/units';
+import { useSetting } from '../utils/settings';
+
+// Loaded models are normalised so their bounding-box diagonal is this long
+const MODEL_SIZE = 50;
+
+/**
+ * Opens model files, or shows `preloaded` when another screen built the model
+ * itself, e.g. a DICOM isosurface. Preloaded models skip the library.
+ */
+export default function ModelViewer({ preloaded }: { preloaded?: LoadedModel & { name: string } } = {}) {
+  const [fileUri, setFileUri] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(preloaded?.name ?? null);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<{ title: string; message: string } | null>(null);
+  const [stats, setStats] = useState<ModelStats | null>(null);
+  const [dimensions, setDimensions] = useState<THREE.Vector3 | null>(null);
+  const [autoRotate, setAutoRotate] = useState(false);
+  const [wireframe, setWireframe] = useState(false);
+  const [pointSize, setPointSize] = useState(2);
+  // null when the file has no colours of its own
+  const [fileColors, setFileColors] = useState<boolean | null>(null);
+  const [report, setReport] = useState<MeshReport | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [measuring, setMeasuring] = useState(false);
+  const [measureTool, setMeasureTool] = useState<MeasureTool>('distance');
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [pendingPoints, setPendingPoints] = useState<THREE.Vector3[]>([]);
+  const [sections, setSections] = useState<SectionPlane[]>([]);
+  const [sectionDragging, setSectionDragging] = useState(false);
+  const [showViews, setShowViews] = useState(false);
+  const [projection, setProjection] = useState<Projection>('perspective');
+  const [modelUnit, setModelUnit] = useState<{ unit: LengthUnit; source: 'file' | 'size' | 'user' } | null>(null);
+  const [displayUnit, setDisplayUnit] = useSetting<LengthUnit>('displayUnit', 'mm');
+  const [showUnits, setShowUnits] = useState(false);
+  const [annotating, setAnnotating] = useState(false);
+  const [landmarks, setLandmarks] = useState<Landmark[]>([]);
+  const [selectedLandmark, setSelectedLandmark] = useState<string | null>(null);
+  const [labelPositions, setLabelPositions] = useState<{ id: string; x: number; y: number; visible: boolean }[]>([]);
+  const [layers, setLayers] = useState<Layer[]>([]);
+  const [showLayers, setShowLayers] = useState(false);
+  const [addingLayer, setAddingLayer] = useState(false);
+  const [comparing, setComparing] = useState(false);
+  const [deviationLayers, setDeviationLayers] = useState<{ test: string | null; reference: string | null }>({ test: null, reference: null });
+  const [deviation, setDeviation] = useState<DeviationResult | null>(null);
+  const [deviationProgress, setDeviationProgress] = useState<number | null>(null);
+  const [colorMap, setColorMap] = useSetting<ColorMapName>('deviationColorMap', 'blue-red');
+  const [deviationRange, setDeviationRange] = useState(1);
+  const [tolerance, setTolerance] = useState(0.1);
+  const [showDecimate, setShowDecimate] = useState(false);
+  const [decimateTotal, setDecimateTotal] = useState(0);
+  const [decimateTarget, setDecimateTarget] = useState(0);
+  const [decimation, setDecimation] = useState<Decimation | null>(null);
+  const [decimateProgress, setDecimateProgress] = useState<number | null>(null);
+  const [showingOriginal, setShowingOriginal] = useState(false);
+  const [simplifiedCounts, setSimplifiedCounts] = useState<{ before: number; after: number } | null>(null);
+  // Bumped when meshes get new geometry, which the layer key cannot see
+  const [meshVersion, setMeshVersion] = useState(0);
+  const [lowDetailOrbit, setLowDetailOrbit] = useSetting('lowDetailOrbit', false);
+  const [showRepair, setShowRepair] = useState(false);
+  const [repairOptions, setRepairOptions] = useState<RepairOptions | null>(null);
+  const [repair, setRepair] = useState<Repair | null>(null);
+  const [repairing, setRepairing] = useState(false);
+  const [showRender, setShowRender] = useState(false);
+  const [renderMode, setRenderMode] = useState<RenderMode>('shaded');
+  const [shading, setShading] = useState<Shading>('loaded');
+  const [wireOver, setWireOver] = useState(false);
+  const [modelColor, setModelColor] = useState<string | null>(null);
+  const [curvature, setCurvature] = useState<DeviationResult | null>(null);
+
+  const hasLoadedRef = useRef(false);
+  const autoRotateRef = useRef(false);
+  // modelRef is the centred, scaled pivot; objectRef the group of layers inside it,
+  // whose frame is the first model's file coordinates
+  const modelRef = useRef<THREE.Group | null>(null);
+  const objectRef = useRef<THREE.Object3D | null>(null);
+  const layerGroupsRef = useRef(new Map<string, THREE.Group>());
+  const overlayRef = useRef<THREE.Object3D | null>(null);
+  const measureOverlayRef = useRef<THREE.Object3D | null>(null);
+  const viewSizeRef = useRef({ width: 1, height: 1 });
+  // Section planes in the loaded object's frame, and the world-space copies the
+  // renderer clips with, refreshed every frame as the model turns
+  const localPlanesRef = useRef<THREE.Plane[]>([]);
+  const worldPlanesRef = useRef<THREE.Plane[]>([]);
+  const sectionOverlaysRef = useRef<THREE.Object3D[]>([]);
+  const boundsRef = useRef<THREE.Box3 | null>(null);
+  const cornersRef = useRef<Float32Array | null>(null);
+  const landmarkOverlayRef = useRef<THREE.Object3D | null>(null);
+  // Read by the render loop to place the labels
+  const landmarksRef = useRef<Landmark[]>([]);
+  // Sidecar key of the open file; landmarks are only saved once the existing ones were read
+  const contentHashRef = useRef<string | null>(null);
+  const landmarksLoadedRef = useRef(false);
+  // The batched landmark write still waiting, flushed before the file closes
+  const pendingLandmarkSaveRef = useRef<{ timer: ReturnType<typeof setTimeout>; save: () => void } | null>(null);
+  const lowDetailRef = useRef<Decimation | null>(null);
+  const lowDetailShownRef = useRef(false);
+  // Reassigned every render so the pan responder, created once, sees current state
+  const onTapRef = useRef<(x: number, y: number) => void>(() => {});
+  const glViewWrapperRef = useRef(null);
+  const controlsRef = useRef<OrbitControls | null>(null);
+  const colorScheme = useColorScheme();
+  const units: Units = { model: modelUnit?.unit ?? 'mm', display: displayUnit };
+  // Later layers are scaled into the first layer's unit
+  const frameUnit = layers[0]?.unit ?? units.model;
+  // Compare the newest layer against the first unless chosen otherwise
+  const deviationTestId = layers.some(l => l.id === deviationLayers.test) ? deviationLayers.test : layers[layers.length - 1]?.id ?? null;
+  const deviationReferenceId = layers.some(l => l.id === deviationLayers.reference) ? deviationLayers.reference : layers[0]?.id ?? null;
+  // Changes when the layers' triangles move, not when only their look changes
+  const layerGeometryKey = layers.map(l => `${l.id}:${l.visible}:${l.unit}:${l.offset}:${l.rotation}`).join('|') + `#${meshVersion}`;
+
+  const panResponder = useRef(
+    createOrbitResponder(() => controlsRef.current, {
+      onTap: (x, y) => onTapRef.current(x, y),
+      onDoubleTap: (x, y) => {
+        // Re-centre the orbit on the tapped surface point
+        const controls = controlsRef.current;
+        const object = objectRef.current;
+        if (!controls || !object) return;
+        const { width, height } = viewSizeRef.current;
+        const point = pickPoint(controls.camera, object, x, y, width, height, worldPlanesRef.current);
+        if (point) controls.focusOn(object.localToWorld(point));
+      },
+      // Big meshes orbit on their low-detail version when there is one
+      onGestureStart: () => {
+        if (!lowDetailRef.current || lowDetailShownRef.current) return;
+        showDecimated(lowDetailRef.current, true);
+        lowDetailShownRef.current = true;
+        if (objectRef.current) syncWireOverlay(objectRef.current);
+      },
+      onGestureEnd: () => {
+        if (!lowDetailRef.current || !lowDetailShownRef.current) return;
+        showDecimated(lowDetailRef.current, false);
+        lowDetailShownRef.current = false;
+        if (objectRef.current) syncWireOverlay(objectRef.current);
+      },
+    })
+  ).current;
+
+  onTapRef.current = (x, y) => {
+    const camera = controlsRef.current?.camera;
+    const object = objectRef.current;
+    if ((!measuring && !annotating) || !camera || !object) return;
+
+    const { width, height } = viewSizeRef.current;
+    if (annotating) {
+      const hit = pickSurface(camera, object, x, y, width, height, worldPlanesRef.current);
+      if (!hit) return;
+      const landmark = createLandmark(hit.point, hit.normal, landmarks);
+      setLandmarks([...landmarks, landmark]);
+      setSelectedLandmark(landmark.id);
+      return;
+    }
+
+    const point = pickPoint(camera, object, x, y, width, height, worldPlanesRef.current);
+    if (!point) return;
+
+    const points = [...pendingPoints, point];
+    if (points.length === POINTS_PER_TOOL[measureTool]) {
+      setMeasurements([...measurements, createMeasurement(measureTool, points)]);
+      setPendingPoints([]);
+    } else {
+      setPendingPoints(points);
+    }
+  };
+
+  // Rebuild the overlay inside the loaded object so it follows the model and
+  // uses its unscaled units
+  useEffect(() => {
+    const object = objectRef.current;
+    if (measureOverlayRef.current) {
+      removeOverlay(measureOverlayRef.current);
+      measureOverlayRef.current = null;
+    }
+    if (!object || !dimensions || (measurements.length === 0 && pendingPoints.length === 0)) return;
+
+    const overlay = buildMeasureOverlay(measurements, pendingPoints, dimensions.length() * 0.006);
+    object.add(overlay);
+    measureOverlayRef.current = overlay;
+  }, [measurements, pendingPoints, dimensions]);
+
+  useEffect(() => {
+    const object = objectRef.current;
+    landmarksRef.current = landmarks;
+    if (landmarkOverlayRef.current) {
+      removeOverlay(landmarkOverlayRef.current);
+      landmarkOverlayRef.current = null;
+    }
+    if (!object || !dimensions || landmarks.length === 0) return;
+
+    const overlay = buildLandmarkOverlay(landmarks, selectedLandmark, landmarkSize(dimensions));
+    object.add(overlay);
+    landmarkOverlayRef.current = overlay;
+  }, [landmarks, selectedLandmark, dimensions]);
+
+  // Typing in a note changes the landmarks on every key, so writes are batched
+  useEffect(() => {
+    const hash = contentHashRef.current;
+    if (!hash || !fileName || !landmarksLoadedRef.current) return;
+    if (pendingLandmarkSaveRef.current) clearTimeout(pendingLandmarkSaveRef.current.timer);
+    const save = () => {
+      pendingLandmarkSaveRef.current = null;
+      saveLandmarks(hash, fileName, landmarks).catch((err: any) => {
+        Alert.alert('Could not save landmarks', err.message || 'Writing the annotation file failed');
+      });
+    };
+    pendingLandmarkSaveRef.current = { timer: setTimeout(save, 500), save };
+  }, [landmarks]);
+
+  // Leaving the screen closes the file too
+  useEffect(() => () => flushLandmarkSave(), []);
+
+  useEffect(() => {
+    layers.forEach(layer => {
+      const group = layerGroupsRef.current.get(layer.id);
+      if (group) applyLayer(group, layer, frameUnit);
+    });
+  }, [layers]);
+
+  // Cached triangles, bounds and the mesh report describe the old arrangement
+  useEffect(() => {
+    const object = objectRef.current;
+    if (!object || layers.length === 0) return;
+    cornersRef.current = null;
+    const bounds = localBounds(object);
+    if (!bounds.isEmpty()) {
+      boundsRef.current = bounds;
+      setDimensions(bounds.getSize(new THREE.Vector3()));
+    }
+    clearReport();
+    clearDeviation();
+    clearCurvature();
+  }, [layerGeometryKey]);
+
+  // The low-detail copy is built in the background and only while nothing
+  // else has swapped the meshes' geometry
+  const layerIds = layers.map(l => l.id).join('|');
+  const lowDetailWanted = lowDetailOrbit && !deviation && !curvature && !decimation && !repair;
+  useEffect(() => {
+    const root = objectRef.current;
+    if (!lowDetailWanted || !root || layers.length === 0) return;
+    const total = decimatableTriangles(root);
+    if (total <= LOW_DETAIL_TRIANGLES) return;
+
+    let cancelled = false;
+    decimateObject(root, LOW_DETAIL_TRIANGLES / total)
+      .then(lowDetail => {
+        if (cancelled) lowDetail.meshes.forEach(entry => entry.simplified.dispose());
+        else lowDetailRef.current = lowDetail;
+      })
+      .catch(err => console.warn('Low-detail mesh failed', err));
+    return () => {
+      cancelled = true;
+      dropLowDetail();
+    };
+  }, [lowDetailWanted, layerIds, meshVersion]);
+
+  useEffect(() => {
+    if (deviation) applyDeviationColors(deviation, colorMap, deviationRange, tolerance);
+  }, [deviation, colorMap, deviationRange, tolerance]);
+
+  // New layers and meshes a heatmap gave back need the mode's materials too
+  useEffect(() => {
+    const root = objectRef.current;
+    if (!root) return;
+    applyRenderMode(root, renderMode === 'curvature' ? 'shaded' : renderMode);
+    layers.forEach(layer => {
+      const group = layerGroupsRef.current.get(layer.id);
+      if (group) applyLayer(group, layer, frameUnit);
+    });
+  }, [renderMode, layerIds, deviation, curvature]);
+
+  // Curvature is coloured like a deviation, symmetric about flat
+  useEffect(() => {
+    if (curvature) applyDeviationColors(curvature, colorMap, curvature.max, 0);
+  }, [curvature, colorMap]);
+
+  useEffect(() => {
+    if (objectRef.current) applyShading(objectRef.current, shading);
+  }, [shading, renderMode, layerIds, meshVersion, deviation, curvature, decimation, repair]);
+
+  useEffect(() => {
+    const root = objectRef.current;
+    if (!root || !wireOver) return;
+    addWireOverlay(root, WIRE_OVER_COLOR);
+    return () => removeWireOverlay(root);
+  }, [wireOver, renderMode, layerIds, meshVersion, deviation, curvature, decimation, showingOriginal, repair]);
+
+  // Clipping follows every slider move; caps need a pass over all triangles,
+  // so they are rebuilt once the drag ends
+  useEffect(() => {
+    const object = objectRef.current;
+    sectionOverlaysRef.current.forEach(removeOverlay);
+    sectionOverlaysRef.current = [];
+    if (!object || !boundsRef.current) return;
+
+    const bounds = boundsRef.current;
+    localPlanesRef.current = sections.map(section => sectionToPlane(section, bounds));
+    if (worldPlanesRef.current.length !== sections.length) {
+      worldPlanesRef.current = sections.map(() => new THREE.Plane());
+      forEachMaterial(object, material => {
+        material.clippingPlanes = worldPlanesRef.current;
+      });
+      syncWireOverlay(object);
+    }
+    updateWorldPlanes(localPlanesRef.current, worldPlanesRef.current, object);
+    if (sectionDragging || sections.length === 0) return;
+
+    if (!cornersRef.current) cornersRef.current = collectTriangles(object);
+    const corners = cornersRef.current;
+    localPlanesRef.current.forEach((plane, i) => {
+      const others = worldPlanesRef.current.filter((_, j) => j !== i);
+      const overlay = buildSectionOverlay(corners, plane, others, SECTION_COLORS[i % SECTION_COLORS.length]);
+      object.add(overlay);
+      sectionOverlaysRef.current.push(overlay);
+    });
+  }, [sections, sectionDragging, layerGeometryKey]);
+
+  const handleUndoMeasure = () => {
+    if (pendingPoints.length > 0) {
+      setPendingPoints(pendingPoints.slice(0, -1));
+    } else {
+      setMeasurements(measurements.slice(0, -1));
+    }
+  };
+
+  const handleMeasureToolChange = (tool: MeasureTool) => {
+    setMeasureTool(tool);
+    setPendingPoints([]);
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+
+      if (result.assets && result.assets.length > 0) {
+        const uri = result.assets[0].uri;
+        setFileUri(uri);
+        setFileName(result.assets[0].name || 'Unnamed');
+        hasLoadedRef.current = false;
+      }
+    } catch (err: any) {
+      Alert.alert('File Picker Error', err.message || 'Something went wrong');
+    }
+  };
+
+  // Loads a model file into the shared scene as a new layer
+  const loadLayer = async (uri: string, name: string, index: number) => {
+    if (!objectRef.current) throw new Error('The scene is not ready');
+    const response = await fetch(uri);
+    const buffer = await response.arrayBuffer();
+    const loader = findLoader(name, buffer);
+    const model = await loader.load(buffer, {
+      fileName: name,
+      uri,
+      onProgress: setProgress,
+    });
+    return { ...addLayer(model, name, index), buffer };
+  };
+
+  // Adds a model to the shared scene as a new layer, in its own file
+  // coordinates scaled into the first layer's unit
+  const addLayer = ({ object, stats }: LoadedModel, name: string, index: number) => {
+    const root = objectRef.current;
+    if (!root) throw new Error('The scene is not ready');
+
+    forEachMaterial(object, material => {
+      (material as THREE.MeshStandardMaterial).wireframe = wireframe;
+      if (material instanceof THREE.PointsMaterial) material.size = pointSize;
+      // Open sections cut the new layer too
+      if (worldPlanesRef.current.length > 0) material.clippingPlanes = worldPlanesRef.current;
+    });
+
+    const group = new THREE.Group();
+    group.name = name;
+    group.add(object);
+    const bounds = localBounds(group);
+    const unit = guessUnit(bounds.getSize(new THREE.Vector3()), stats.unit);
+    const layer = createLayer(name, stats, unit.unit, bounds.getCenter(new THREE.Vector3()), index);
+    applyLayer(group, layer, index === 0 ? unit.unit : frameUnit);
+    root.add(group);
+    layerGroupsRef.current.set(layer.id, group);
+    setLayers(current => [...current, layer]);
+    return { stats, unit };
+  };
+
+  // Centres all layers together in the pivot and scales the pivot to a common size
+  const frameScene = () => {
+    const root = objectRef.current;
+    const model = modelRef.current;
+    if (!root || !model) return new THREE.Vector3();
+    const box = localBounds(root);
+    const size = box.getSize(new THREE.Vector3());
+    root.position.copy(box.getCenter(new THREE.Vector3())).negate();
+    model.scale.setScalar(size.length() > 0 ? MODEL_SIZE / size.length() : 1);
+    boundsRef.current = box;
+    cornersRef.current = null;
+    setDimensions(size);
+    controlsRef.current?.fit(model);
+    return size;
+  };
+
+  const handleAddLayer = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      const asset = result.assets?.[0];
+      if (!asset || !objectRef.current) return;
+
+      setAddingLayer(true);
+      await loadLayer(asset.uri, asset.name || 'Unnamed', layers.length);
+      frameScene();
+      const root = objectRef.current;
+      setFileColors(current => current ?? (hasVertexColors(root) ? true : null));
+    } catch (err: any) {
+      Alert.alert(
+        err instanceof ModelLoadError ? err.title : 'Load Error',
+        err.message || 'Could not load file'
+      );
+    } finally {
+      setProgress(null);
+      setAddingLayer(false);
+    }
+  };
+
+  const handleRemoveLayer = (id: string) => {
+    clearDeviation();
+    clearCurvature();
+    discardDecimation();
+    undoRepair();
+    const group = layerGroupsRef.current.get(id);
+    if (group) {
+      group.removeFromParent();
+      group.traverse((child: any) => child.geometry?.dispose());
+      layerGroupsRef.current.delete(id);
+    }
+    setLayers(layers.filter(l => l.id !== id));
+  };
+
+  const handleExport = () => {
+    const object = objectRef.current;
+    if (!object || !fileName) return;
+
+    // STL files are written in the display unit, so a model set to inches and shown in mm is
+    // saved in mm; glTF is defined in metres, so GLB files are always written in metres
+    const scale = unitScale(units.model, units.display);
+    const run = async (format: 'stl-binary' | 'stl-ascii' | 'glb') => {
+      try {
+        let name: string;
+        let data: ArrayBuffer | string;
+        if (format === 'glb') {
+          name = replaceExtension(fileName, 'glb');
+          data = exportGLB(object, { scale: unitScale(units.model, 'm') });
+        } else {
+          name = replaceExtension(fileName, 'stl');
+          data = format === 'stl-binary'
+            ? exportSTL(object, { binary: true, scale })
+            : exportSTL(object, { binary: false, name: name.replace(/\.stl$/, ''), scale });
+        }
+        const uri = await saveExport(name, data);
+        Alert.alert(format === 'glb' ? '💾 GLB exported' : '💾 STL exported', `${uri}\nUnits: ${UNIT_LABELS[format === 'glb' ? 'm' : units.display]}`);
+      } catch (err: any) {
+        Alert.alert('Export failed', err.message || 'Could not write the file');
+      }
+    };
+
+    // Point clouds have no triangles for STL, glTF stores them as points
+    if (isPointCloud) {
+      run('glb');
+      return;
+    }
+
+    // Android shows at most three buttons per alert, so the STL encoding is a second step
+    Alert.alert('Export', 'Choose the file format', [
+      {
+        text: 'STL',
+        onPress: () => Alert.alert('Export STL', 'Choose the STL encoding', [
+          { text: 'Binary', onPress: () => run('stl-binary') },
+          { text: 'ASCII', onPress: () => run('stl-ascii') },
+          { text: 'Cancel', style: 'cancel' },
+        ]),
+      },
+      { text: 'glTF (GLB)', onPress: () => run('glb') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const clearReport = () => {
+    if (overlayRef.current) {
+      removeOverlay(overlayRef.current);
+      overlayRef.current = null;
+    }
+    setReport(null);
+  };
+
+  const handleAnalyze = async () => {
+    const object = objectRef.current;
+    if (!object) return;
+    if (report) {
+      clearReport();
+      return;
+    }
+
+    setAnalyzing(true);
+    // Let the busy indicator render before the synchronous analysis runs
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      const result = analyzeMesh(collectTriangles(object));
+      // The corners are relative to the loaded object, so the overlay lives inside it
+      const overlay = buildProblemOverlay(result);
+      object.add(overlay);
+      overlayRef.current = overlay;
+      setReport(result);
+    } catch (err: any) {
+      Alert.alert('Analysis failed', err.message || 'Could not analyse the mesh');
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const clearDeviation = () => {
+    if (!deviation) return;
+    clearDeviationColors(deviation);
+    // Layer opacity and colour went to the heatmap's material while it was shown
+    layers.forEach(layer => {
+      const group = layerGroupsRef.current.get(layer.id);
+      if (group) applyLayer(group, layer, frameUnit);
+    });
+    setDeviation(null);
+  };
+
+  const handleComputeDeviation = async () => {
+    const root = objectRef.current;
+    const test = deviationTestId ? layerGroupsRef.current.get(deviationTestId) : undefined;
+    const reference = deviationReferenceId ? layerGroupsRef.current.get(deviationReferenceId) : undefined;
+    if (!root || !test || !reference) return;
+
+    clearDeviation();
+    clearCurvature();
+    discardDecimation();
+    undoRepair();
+    setDeviationProgress(0);
+    try {
+      const result = await computeDeviation(test, reference, root, setDeviationProgress);
+      const extent = Math.max(Math.abs(result.min), Math.abs(result.max));
+      setDeviationRange(extent > 0 ? extent : 1);
+      setTolerance(niceStep(extent / 10));
+      setDeviation(result);
+    } catch (err: any) {
+      Alert.alert('Comparison failed', err.message || 'Could not compare the models');
+    } finally {
+      setDeviationProgress(null);
+    }
+  };
+
+  const clearCurvature = () => {
+    if (!curvature) return;
+    clearDeviationColors(curvature);
+    layers.forEach(layer => {
+      const group = layerGroupsRef.current.get(layer.id);
+      if (group) applyLayer(group, layer, frameUnit);
+    });
+    setCurvature(null);
+    setRenderMode('shaded');
+  };
+
+  const handleRenderModeChange = (mode: RenderMode) => {
+    const root = objectRef.current;
+    if (!root) return;
+    clearCurvature();
+    if (mode === 'curvature') {
+      // Curvature takes over the heatmap, and is worked out on the meshes as kept
+      clearDeviation();
+      discardDecimation();
+      undoRepair();
+      dropLowDetail();
+      try {
+        setCurvature(meanCurvature(root));
+      } catch (err: any) {
+        Alert.alert('Curvature failed', err.message || 'Could not compute the curvature');
+        return;
+      }
+    }
+    setRenderMode(mode);
+  };
+
+  const handleColorChange = (color: string) => {
+    if (objectRef.current) applyModelColor(objectRef.current, color);
+    setModelColor(color);
+  };
+
+  const dropLowDetail = () => {
+    const lowDetail = lowDetailRef.current;
+    if (!lowDetail) return;
+    if (lowDetailShownRef.current) showDecimated(lowDetail, false);
+    lowDetail.meshes.forEach(entry => entry.simplified.dispose());
+    lowDetailRef.current = null;
+    lowDetailShownRef.current = false;
+  };
+
+  const toggleDecimate = () => {
+    if (showDecimate) {
+      discardDecimation();
+      setShowDecimate(false);
+      return;
+    }
+    const total = objectRef.current ? decimatableTriangles(objectRef.current) : 0;
+    setDecimateTotal(total);
+    setDecimateTarget(Math.round(total / 4));
+    setShowDecimate(true);
+  };
+
+  const handlePreviewDecimation = async () => {
+    const root = objectRef.current;
+    if (!root || decimateTotal === 0) return;
+
+    clearDeviation();
+    clearCurvature();
+    undoRepair();
+    dropLowDetail();
+    setDecimateProgress(0);
+    try {
+      const result = await decimateObject(root, decimateTarget / decimateTotal, setDecimateProgress);
+      showDecimated(result, true);
+      setShowingOriginal(false);
+      setDecimation(result);
+    } catch (err: any) {
+      Alert.alert('Simplification failed', err.message || 'Could not simplify the mesh');
+    } finally {
+      setDecimateProgress(null);
+    }
+  };
+
+  const handleApplyDecimation = () => {
+    if (!decimation) return;
+    finishDecimation(decimation, 'simplified');
+    setSimplifiedCounts({ before: simplifiedCounts?.before ?? decimation.before, after: decimation.after });
+    setDecimateTotal(decimation.after);
+    setDecimateTarget(Math.round(decimation.after / 4));
+    setDecimation(null);
+    // Triangles, bounds, caps and the low-detail copy all describe the old meshes
+    setMeshVersion(meshVersion + 1);
+  };
+
+  const toggleRepair = () => {
+    if (showRepair) {
+      undoRepair();
+      setShowRepair(false);
+      return;
+    }
+    const size = dimensions ? dimensions.length() : 1;
+    setRepairOptions(current => current ?? { weldTolerance: size * 1e-6, maxHoleEdges: 50, minShellTriangles: 10, minShellVolume: 0 });
+    setShowRepair(true);
+  };
+
+  const handleRepair = async () => {
+    const root = objectRef.current;
+    if (!root || !repairOptions) return;
+
+    clearReport();
+    clearDeviation();
+    clearCurvature();
+    discardDecimation();
+    dropLowDetail();
+    setRepairing(true);
+    // Let the busy state render before the synchronous repair runs
+    await new Promise(resolve => setTimeout(resolve, 0));
+    try {
+      setRepair(repairObject(root, repairOptions));
+    } catch (err: any) {
+      Alert.alert('Repair failed', err.message || 'Could not repair the mesh');
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  const keepRepair = () => {
+    if (!repair) return;
+    finishRepair(repair, 'repaired');
+    setRepair(null);
+    setMeshVersion(meshVersion + 1);
+  };
+
+  const undoRepair = () => {
+    if (!repair) return;
+    finishRepair(repair, 'original');
+    setRepair(null);
+  };
+
+  const discardDecimation = () => {
+    if (!decimation) return;
+    finishDecimation(decimation, 'original');
+    setDecimation(null);
+  };
+
+  const flushLandmarkSave = () => {
+    const pending = pendingLandmarkSaveRef.current;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pending.save();
+  };
+
+  const resetModel = () => {
+    flushLandmarkSave();
+    clearReport();
+    dropLowDetail();
+    setMeasuring(false);
+    setMeasurements([]);
+    setPendingPoints([]);
+    setSections([]);
+    localPlanesRef.current = [];
+    worldPlanesRef.current = [];
+    boundsRef.current = null;
+    cornersRef.current = null;
+    setFileUri(null);
+    setFileName(null);
+    setLoadError(null);
+    setStats(null);
+    setDimensions(null);
+    setFileColors(null);
+    setModelUnit(null);
+    setShowUnits(false);
+    setAnnotating(false);
+    setLandmarks([]);
+    setSelectedLandmark(null);
+    setLabelPositions([]);
+    setLayers([]);
+    setShowLayers(false);
+    setComparing(false);
+    setDeviationLayers({ test: null, reference: null });
+    setDeviation(null);
+    setShowDecimate(false);
+    setDecimation(null);
+    setSimplifiedCounts(null);
+    setShowRepair(false);
+    setRepairOptions(null);
+    setRepair(null);
+    setShowRender(false);
+    setRenderMode('shaded');
+    setModelColor(null);
+    setCurvature(null);
+    layerGroupsRef.current.clear();
+    contentHashRef.current = null;
+    landmarksLoadedRef.current = false;
+    modelRef.current = null;
+    objectRef.current = null;
+    controlsRef.current = null;
+    hasLoadedRef.current = false;
+  };
+
+  const onContextCreate = async (gl: WebGLRenderingContext & { endFrameEXP: () => void }) => {
+    if (hasLoadedRef.current || (!fileUri && !preloaded) || !fileName) return;
+    hasLoadedRef.current = true;
+
+    const { drawingBufferWidth: w, drawingBufferHeight: h } = gl;
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(colorScheme === 'dark' ? '#111' : '#f0f0f0');
+
+    const camera = new THREE.PerspectiveCamera(75, w / h, 0.1, 1000);
+    const controls = new OrbitControls(camera);
+    controls.setViewport(viewSizeRef.current.width, viewSizeRef.current.height);
+    controls.projection = projection;
+    controlsRef.current = controls;
+
+    const renderer = new Renderer({ gl });
+    renderer.setSize(w, h);
+    renderer.localClippingEnabled = true;
+
+    scene.add(new THREE.HemisphereLight(0xffffff, 0x444444, 0.8));
+    // Head light: keeps the side facing the viewer lit however the model is turned
+    const light = new THREE.DirectionalLight(0xffffff, 0.8);
+    light.position.set(5, 5, 10);
+    camera.add(light);
+    controls.orthographic.add(light.clone());
+    scene.add(camera);
+    scene.add(controls.orthographic);
+
+    try {
+      setLoading(true);
+      const model = new THREE.Group();
+      const root = new THREE.Group();
+      model.add(root);
+      modelRef.current = model;
+      objectRef.current = root;
+      scene.add(model);
+
+      const { stats, unit, buffer } = preloaded
+        ? { ...addLayer(preloaded, fileName, 0), buffer: null }
+        : await loadLayer(fileUri!, fileName, 0);
+      setProgress(null);
+      setStats(stats);
+      setFileColors(hasVertexColors(root) ? true : null);
+
+      // Landmarks saved for this content come back in the background, and the
+      // file goes into the library with a snapshot once the first frames are drawn;
+      // a preloaded model has no file for either
+      if (buffer && fileUri) {
+        hashBuffer(buffer)
+          .then(async hash => {
+            if (objectRef.current !== root) return;
+            contentHashRef.current = hash;
+            // Saving stays off unless the old sidecar was read or moved out of the way
+            let saved: Landmark[] = [];
+            let canSave = true;
+            try {
+              saved = await loadLandmarks(hash);
+            } catch (err: any) {
+              canSave = err instanceof LandmarkFileError;
+              if (objectRef.current === root) {
+                Alert.alert(
+                  'Could not read landmarks',
+                  canSave ? err.message : `${err.message || 'Reading the annotation file failed'}. Landmarks placed now will not be saved.`
+                );
+              }
+            }
+            if (objectRef.current !== root) return;
+            landmarksLoadedRef.current = canSave;
+            setLandmarks(current => [...saved, ...current]);
+
+            await addToLibrary(hash, fileUri, fileName, buffer.byteLength, stats);
+            await new Promise(resolve => setTimeout(resolve, 1000));
+            if (objectRef.current !== root) return;
+            const snapshot = await captureRef(glViewWrapperRef, { format: 'png', quality: 0.8, result: 'tmpfile' });
+            await setThumbnail(hash, snapshot);
+          })
+          .catch(err => console.warn('Could not update the library', err));
+      }
+
+      frameScene();
+      setModelUnit(unit);
+
+      setLoading(false);
+
+      let frame = 0;
+      let lastLabels = '';
+      const labelSize = new THREE.Vector3();
+      const animate = () => {
+        requestAnimationFrame(animate);
+        frame++;
+        if (autoRotateRef.current && modelRef.current) {
+          modelRef.current.rotation.y += 0.01;
+        }
+        controls.update();
+        if (objectRef.current) {
+          updateWorldPlanes(localPlanesRef.current, worldPlanesRef.current, objectRef.current);
+        }
+        renderer.render(scene, controls.camera);
+        gl.endFrameEXP();
+
+        // Labels are React views, a few updates a second keep them close enough to their pins
+        if (frame % 6 === 0 && objectRef.current && (landmarksRef.current.length > 0 || lastLabels !== '')) {
+          const { width, height } = viewSizeRef.current;
+          const positions = projectLandmarks(
+            landmarksRef.current,
+            objectRef.current,
+            controls.camera,
+            landmarkSize(boundsRef.current?.getSize(labelSize) ?? labelSize),
+            width,
+            height
+          );
+          const key = JSON.stringify(positions);
+          if (key !== lastLabels) {
+            lastLabels = positions.length > 0 ? key : '';
+            setLabelPositions(positions);
+          }
+        }
+      };
+      animate();
+    } catch (err: any) {
+      setLoadError(err instanceof ModelLoadError
+        ? { title: err.title, message: err.message }
+        : { title: 'Load Error', message: err.message || 'Could not load file' });
+      setProgress(null);
+      setLoading(false);
+    }
+  };
+
+  // Points without any triangles or faces; a ZIP can hold meshes and point clouds together
+  const isPointCloud = stats?.pointCount !== undefined && stats.triangleCount === undefined && stats.faceCount === undefined;
+  const simplified = decimation ?? simplifiedCounts;
+  const supported = getLoaders().flatMap(l => l.extensions.map(e => `.${e}`)).join(', ');
+
+  return (
+    <View style={styles.container}>
+      {!fileUri && !preloaded ? (
+        <ModelLibrary
+          supported={supported}
+          onOpen={entry => {
+            setFileUri(entry.uri);
+            setFileName(entry.fileName);
+            hasLoadedRef.current = false;
+          }}
+          onPickFile={handlePickFile}
+        />
+      ) : (
+        <>
+          {analyzing && (
+            <View style={styles.loader}>
+              <ActivityIndicator size="large" color="#6c757d" />
+              <Text style={styles.info}>Analysing mesh...</Text>
+            </View>
+          )}
+
+          {loading && (
+            <View style={styles.loader}>
+              <ActivityIndicator size="large" color="#6c757d" />
+              <Text style={styles.info}>
+                {progress !== null ? `Loading model... ${Math.round(progress * 100)}%` : 'Loading model...'}
+              </Text>
+            </View>
+          )}
+
+          {loadError && (
+            <View style={styles.errorBox}>
+              <Feather name="alert-triangle" size={28} color="#dc3545" />
+              <Text style={styles.errorTitle}>{loadError.title}</Text>
+              <Text style={styles.errorText}>{loadError.message}</Text>
+              {fileName && <Text style={styles.errorText}>File: {fileName}</Text>}
+            </View>
+          )}
+
+          <View
+            ref={glViewWrapperRef}
+            collapsable={false}
+            style={[styles.viewer, loadError && styles.hidden]}
+            onLayout={e => {
+              const { width, height } = e.nativeEvent.layout;
+              viewSizeRef.current = { width, height };
+              controlsRef.current?.setViewport(width, height);
+            }}
+            {...panResponder.panHandlers}
+            {...{ onWheel: createWheelHandler(() => controlsRef.current) }}
+          >
+            <GLView style={{ flex: 1 }} onContextCreate={onContextCreate} />
+            {labelPositions.map(position => {
+              const landmark = landmarks.find(l => l.id === position.id);
+              if (!landmark || !position.visible) return null;
+              return (
+                <View
+                  key={position.id}
+                  pointerEvents="none"
+                  style={[styles.landmarkLabel, { left: position.x + 8, top: position.y - 10, borderColor: landmark.color }]}
+                >
+                  <Text style={styles.landmarkLabelText} numberOfLines={1}>{landmark.name}</Text>
+                </View>
+              );
+            })}
+          </View>
+
+          {stats && dimensions && (
+            <View style={styles.infoBoxInline}>
+              <Text style={styles.infoText}>{formatStats(stats)}</Text>
+              <Text style={styles.infoText}>
+                W: {formatLength(dimensions.x, units)} | H: {formatLength(dimensions.y, units)} | D: {formatLength(dimensions.z, units)}
+              </Text>
+              {fileName && <Text style={styles.infoText}>Filename: {fileName}</Text>}
+              {layers.length > 1 && <Text style={styles.infoText}>Layers: {layers.length}</Text>}
+              {simplified && (
+                <Text style={styles.infoText}>
+                  Simplified: {simplified.before.toLocaleString()} → {simplified.after.toLocaleString()} triangles
+                  {decimation ? (showingOriginal ? ' (showing original)' : ' (preview)') : ''}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {report && <MeshReportPanel report={report} units={units} />}
+
+          {showUnits && modelUnit && (
+            <UnitBar
+              modelUnit={modelUnit.unit}
+              modelUnitSource={modelUnit.source}
+              displayUnit={displayUnit}
+              onModelUnitChange={unit => {
+                setModelUnit({ unit, source: 'user' });
+                setLayers(current => current.map((layer, i) => (i === 0 ? { ...layer, unit } : layer)));
+              }}
+              onDisplayUnitChange={setDisplayUnit}
+            />
+          )}
+
+          {showViews && (
+            <ViewPresetBar
+              projection={projection}
+              onPreset={preset => {
+                if (controlsRef.current && modelRef.current) controlsRef.current.setView(preset, modelRef.current);
+              }}
+              onProjectionChange={next => {
+                controlsRef.current?.setProjection(next);
+                setProjection(next);
+              }}
+            />
+          )}
+
+          {sections.length > 0 && (
+            <SectionPanel
+              sections={sections}
+              onChange={(index, section) => setSections(sections.map((s, i) => (i === index ? section : s)))}
+              onAdd={() => setSections([...sections, defaultSectionPlane((['x', 'y', 'z'] as const)[sections.length % 3])])}
+              onRemove={index => setSections(sections.filter((_, i) => i !== index))}
+              onDragStart={() => setSectionDragging(true)}
+              onDragEnd={() => setSectionDragging(false)}
+            />
+          )}
+
+          {showLayers && (
+            <LayerPanel
+              layers={layers}
+              moveStep={dimensions ? niceStep(dimensions.length() / 100) : 1}
+              formatOffset={value => formatLength(value, units)}
+              adding={addingLayer}
+              onChange={layer => setLayers(layers.map(l => (l.id === layer.id ? layer : l)))}
+              onRemove={handleRemoveLayer}
+              onAdd={handleAddLayer}
+            />
+          )}
+
+          {showDecimate && (
+            <DecimatePanel
+              triangleCount={decimateTotal}
+              target={decimateTarget}
+              preview={decimation}
+              showingOriginal={showingOriginal}
+              progress={decimateProgress}
+              lowDetailOrbit={lowDetailOrbit}
+              onTargetChange={setDecimateTarget}
+              onPreview={handlePreviewDecimation}
+              onCompare={original => {
+                if (!decimation) return;
+                showDecimated(decimation, !original);
+                setShowingOriginal(original);
+              }}
+              onApply={handleApplyDecimation}
+              onDiscard={discardDecimation}
+              onLowDetailOrbitChange={setLowDetailOrbit}
+            />
+          )}
+
+          {showRepair && repairOptions && (
+            <RepairPanel
+              modelSize={dimensions ? dimensions.length() : 1}
+              options={repairOptions}
+              report={repair?.report ?? null}
+              busy={repairing}
+              formatLength={value => formatLength(value, units)}
+              onOptionsChange={setRepairOptions}
+              onRepair={handleRepair}
+              onKeep={keepRepair}
+              onUndo={undoRepair}
+              onExport={() => {
+                keepRepair();
+                handleExport();
+              }}
+            />
+          )}
+
+          {showRender && (
+            <RenderPanel
+              mode={renderMode}
+              shading={shading}
+              wireOver={wireOver}
+              color={modelColor}
+              colorMap={colorMap}
+              isPointCloud={isPointCloud}
+              onModeChange={handleRenderModeChange}
+              onShadingChange={setShading}
+              onWireOverChange={setWireOver}
+              onColorChange={handleColorChange}
+            />
+          )}
+
+          {comparing && (
+            <DeviationPanel
+              layers={layers}
+              testId={deviationTestId}
+              referenceId={deviationReferenceId}
+              result={deviation}
+              progress={deviationProgress}
+              colorMap={colorMap}
+              range={deviationRange}
+              tolerance={tolerance}
+              units={units}
+              onTestChange={id => setDeviationLayers({ test: id, reference: deviationReferenceId })}
+              onReferenceChange={id => setDeviationLayers({ test: deviationTestId, reference: id })}
+              onCompute={handleComputeDeviation}
+              onColorMapChange={setColorMap}
+              onRangeChange={setDeviationRange}
+              onToleranceChange={setTolerance}
+            />
+          )}
+
+          {annotating && (
+            <LandmarkPanel
+              landmarks={landmarks}
+              selectedId={selectedLandmark}
+              onSelect={setSelectedLandmark}
+              onChange={landmark => setLandmarks(landmarks.map(l => (l.id === landmark.id ? landmark : l)))}
+              onRemove={id => {
+                setLandmarks(landmarks.filter(l => l.id !== id));
+                if (selectedLandmark === id) setSelectedLandmark(null);
+              }}
+              onFocus={landmark => {
+                if (controlsRef.current && objectRef.current) {
+                  controlsRef.current.focusOn(objectRef.current.localToWorld(landmark.position.clone()));
+                }
+                setSelectedLandmark(landmark.id);
+              }}
+            />
+          )}
+
+          {measuring && (
+            <MeasurementPanel
+              tool={measureTool}
+              measurements={measurements}
+              pendingCount={pendingPoints.length}
+              units={units}
+              onToolChange={handleMeasureToolChange}
+              onUndo={handleUndoMeasure}
+              onClear={() => {
+                setMeasurements([]);
+                setPendingPoints([]);
+              }}
+            />
+          )}
+
+          <View style={styles.iconBar}>
+            <IconBtn icon="refresh-ccw" onPress={() => {
+              if (controlsRef.current && modelRef.current) {
+                modelRef.current.rotation.set(0, 0, 0);
+                controlsRef.current.fit(modelRef.current);
+              }
+            }} />
+            <IconBtn icon="compass" onPress={() => setShowViews(!showViews)} active={showViews} disabled={!stats} />
+            <IconBtn icon="layers" onPress={() => setShowLayers(!showLayers)} active={showLayers} disabled={!stats} />
+            <IconBtn icon="triangle" onPress={toggleDecimate} active={showDecimate} disabled={!stats || isPointCloud || decimateProgress !== null} />
+            <IconBtn icon="tool" onPress={toggleRepair} active={showRepair} disabled={!stats || isPointCloud || repairing} />
+            <IconBtn icon="thermometer" onPress={() => {
+              if (comparing) clearDeviation();
+              setComparing(!comparing);
+            }} active={comparing} disabled={layers.length < 2 || deviationProgress !== null} />
+            <IconBtn icon="resize-outline" pack="ion" onPress={() => setShowUnits(!showUnits)} active={showUnits} disabled={!stats} />
+            <IconBtn icon={autoRotate ? 'pause' : 'play'} onPress={() => {
+              autoRotateRef.current = !autoRotate;
+              setAutoRotate(!autoRotate);
+            }} />
+            <IconBtn icon="color-palette-outline" pack="ion" onPress={() => setShowRender(!showRender)} active={showRender} disabled={!stats} />
+            {fileColors !== null && (
+              <IconBtn icon="droplet" onPress={() => {
+                if (objectRef.current) {
+                  setVertexColorsEnabled(objectRef.current, !fileColors);
+                  setFileColors(!fileColors);
+                }
+              }} active={fileColors} />
+            )}
+            {isPointCloud ? (
+              <>
+                <IconBtn icon="minus-circle" onPress={() => updatePointSize(pointSize - 1)} disabled={pointSize <= 1} />
+                <IconBtn icon="plus-circle" onPress={() => updatePointSize(pointSize + 1)} disabled={pointSize >= 10} />
+              </>
+            ) : (
+              <IconBtn icon={wireframe ? 'eye-off' : 'eye'} onPress={() => {
+                if (objectRef.current) {
+                  forEachMaterial(objectRef.current, material => {
+                    (material as THREE.MeshStandardMaterial).wireframe = !wireframe;
+                  });
+                  setWireframe(!wireframe);
+                }
+              }} />
+            )}
+            <IconBtn icon="camera" onPress={async () => {
+              try {
+                const uri = await captureRef(glViewWrapperRef, {
+                  format: 'png',
+                  quality: 1,
+                  result: 'tmpfile',
+                });
+                Alert.alert('📸 Screenshot saved', uri);
+              } catch (err: any) {
+                Alert.alert('Screenshot failed', err.message);
+              }
+            }} />
+            <IconBtn icon="scissors" onPress={() => {
+              setSections(sections.length > 0 ? [] : [defaultSectionPlane()]);
+            }} active={sections.length > 0} disabled={!stats} />
+            {!isPointCloud && (
+              <IconBtn icon="crosshair" onPress={() => {
+                setMeasuring(!measuring);
+                setAnnotating(false);
+                setPendingPoints([]);
+              }} active={measuring} disabled={!stats} />
+            )}
+            {!isPointCloud && (
+              <IconBtn icon="map-pin" onPress={() => {
+                setAnnotating(!annotating);
+                setMeasuring(false);
+                setPendingPoints([]);
+              }} active={annotating} disabled={!stats} />
+            )}
+            {!isPointCloud && (
+              <IconBtn icon="activity" onPress={handleAnalyze} active={!!report} disabled={!stats || analyzing} />
+            )}
+            <IconBtn icon="download" onPress={handleExport} disabled={!stats} />
+            {!preloaded && <IconBtn icon="folder-open-outline" pack="ion" onPress={resetModel} disabled={loading} />}
+          </View>
+        </>
+      )}
+    </View>
+  );
+
+  function updatePointSize(size: number) {
+    const next = Math.min(Math.max(size, 1), 10);
+    if (objectRef.current) {
+      forEachMaterial(objectRef.current, material => {
+        if (material instanceof THREE.PointsMaterial) material.size = next;
+      });
+    }
+    setPointSize(next);
+  }
+}
+
+// Triangles in the copy shown while orbiting big meshes
+const LOW_DETAIL_TRIANGLES = 200000;
+// Edges drawn over the shaded surface
+const WIRE_OVER_COLOR = '#111111';
+
+// 1, 2 or 5 times a power of ten, so nudged offsets stay round numbers
+function niceStep(value: number) {
+  if (!(value > 0)) return 1;
+  const power = 10 ** Math.floor(Math.log10(value));
+  const scaled = value / power;
+  return (scaled < 2 ? 1 : scaled < 5 ? 2 : 5) * power;
+}
+
+// Pin length, in the model's own units
+function landmarkSize(dimensions: THREE.Vector3) {
+  return dimensions.length() * 0.03;
+}
+
+function formatStats(stats: ModelStats) {
+  const parts = [`Format: ${stats.format}`];
+  if (stats.objectCount !== undefined) parts.push(`Objects: ${stats.objectCount}`);
+  if (stats.pointCount !== undefined) parts.push(`Points: ${stats.pointCount}`);
+  if (stats.vertexCount !== undefined) parts.push(`Vertices: ${stats.vertexCount}`);
+  if (stats.faceCount !== undefined) parts.push(`Faces: ${stats.faceCount}`);
+  if (stats.triangleCount !== undefined) parts.push(`Triangles: ${stats.triangleCount}`);
+  if (stats.unit !== undefined) parts.push(`Unit: ${stats.unit}`);
+  return parts.join(' | ');
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  viewer: { flex: 1, marginVertical: 10, minHeight: 300 },
+  info: { color: '#6c757d', fontSize: 16, marginTop: 10, textAlign: 'center' },
+  loader: { position: 'absolute', zIndex: 10, alignSelf: 'center', top: '45%', alignItems: 'center' },
+  infoBoxInline: { marginTop: 0, padding: 3, borderRadius: 6, backgroundColor: '#222' },
+  infoText: { color: 'white', fontSize: 14, textAlign: 'center' },
+  iconBar: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'center', paddingVertical: 8, backgroundColor: '#f8f9fa', borderTopWidth: 1, borderColor: '#dee2e6' },
+  errorBox: { alignItems: 'center', padding: 16, margin: 10, borderRadius: 8, backgroundColor: '#fff5f5', borderWidth: 1, borderColor: '#f5c2c7' },
+  errorTitle: { color: '#dc3545', fontSize: 16, fontWeight: '600', marginTop: 6 },
+  errorText: { color: '#6c757d', fontSize: 14, marginTop: 4, textAlign: 'center' },
+  hidden: { display: 'none' },
+  landmarkLabel: { position: 'absolute', maxWidth: 140, paddingHorizontal: 5, paddingVertical: 1, borderRadius: 4, borderLeftWidth: 3, backgroundColor: 'rgba(0,0,0,0.6)' },
+  landmarkLabelText: { color: 'white', fontSize: 11 },
+});
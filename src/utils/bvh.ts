@@ -0,0 +1,255 @@
+// Triangles per leaf; smaller leaves mean deeper trees but fewer exact tests
+const LEAF_SIZE = 8;
+
+/** Result of a closest-point query, reused between queries to avoid allocation. */
+export type ClosestHit = {
+  distance: number;
+  /** Index of the closest triangle in the corner array. */
+  triangle: number;
+  x: number;
+  y: number;
+  z: number;
+};
+
+/**
+ * Bounding volume hierarchy over a triangle soup (9 floats per triangle, as
+ * returned by collectTriangles) for nearest-surface queries. Nodes are split
+ * at the median centroid along their longest axis and stored in flat typed
+ * arrays: a leaf holds a range of `order`, an inner node its two children.
+ */
+export class TriangleBVH {
+  private readonly corners: Float32Array;
+  private readonly order: Uint32Array;
+  // Per node: min xyz, max xyz
+  private readonly bounds: Float32Array;
+  // Per node: first child (inner) or first triangle in `order` (leaf)
+  private readonly offset: Uint32Array;
+  // Per node: triangle count for leaves, 0 for inner nodes
+  private readonly count: Uint32Array;
+  private nodeCount = 0;
+
+  constructor(corners: Float32Array) {
+    this.corners = corners;
+    const triangles = corners.length / 9;
+    this.order = new Uint32Array(triangles);
+    const centroids = new Float32Array(triangles * 3);
+    for (let t = 0; t < triangles; t++) {
+      this.order[t] = t;
+      const o = t * 9;
+      centroids[t * 3] = (corners[o] + corners[o + 3] + corners[o + 6]) / 3;
+      centroids[t * 3 + 1] = (corners[o + 1] + corners[o + 4] + corners[o + 7]) / 3;
+      centroids[t * 3 + 2] = (corners[o + 2] + corners[o + 5] + corners[o + 8]) / 3;
+    }
+
+    // Split nodes hold more than LEAF_SIZE, so every leaf gets at least half of that
+    const maxNodes = 2 * Math.ceil(triangles / (LEAF_SIZE / 2)) + 1;
+    this.bounds = new Float32Array(maxNodes * 6);
+    this.offset = new Uint32Array(maxNodes);
+    this.count = new Uint32Array(maxNodes);
+    if (triangles > 0) this.build(centroids);
+  }
+
+  get empty() {
+    return this.order.length === 0;
+  }
+
+  private build(centroids: Float32Array) {
+    const stack: [number, number, number][] = [[this.allocate(), 0, this.order.length]];
+    while (stack.length > 0) {
+      const [node, start, end] = stack.pop()!;
+      this.computeBounds(node, start, end);
+      if (end - start <= LEAF_SIZE) {
+        this.offset[node] = start;
+        this.count[node] = end - start;
+        continue;
+      }
+
+      // Split along the longest axis of the centroid bounds
+      let axis = 0;
+      let bestExtent = -1;
+      for (let a = 0; a < 3; a++) {
+        let min = Infinity;
+        let max = -Infinity;
+        for (let i = start; i < end; i++) {
+          const c = centroids[this.order[i] * 3 + a];
+          if (c < min) min = c;
+          if (c > max) max = c;
+        }
+        if (max - min > bestExtent) {
+          bestExtent = max - min;
+          axis = a;
+        }
+      }
+      const mid = (start + end) >> 1;
+      this.partition(centroids, axis, start, end, mid);
+
+      const left = this.allocate();
+      this.allocate();
+      this.offset[node] = left;
+      this.count[node] = 0;
+      stack.push([left, start, mid], [left + 1, mid, end]);
+    }
+  }
+
+  private allocate() {
+    return this.nodeCount++;
+  }
+
+  /** Quickselect: orders `order[start, end)` so the element at `k` has its final rank on `axis`. */
+  private partition(centroids: Float32Array, axis: number, start: number, end: number, k: number) {
+    const order = this.order;
+    let lo = start;
+    let hi = end - 1;
+    while (lo < hi) {
+      const pivot = centroids[order[(lo + hi) >> 1] * 3 + axis];
+      let i = lo;
+      let j = hi;
+      while (i <= j) {
+        while (centroids[order[i] * 3 + axis] < pivot) i++;
+        while (centroids[order[j] * 3 + axis] > pivot) j--;
+        if (i <= j) {
+          const swap = order[i];
+          order[i] = order[j];
+          order[j] = swap;
+          i++;
+          j--;
+        }
+      }
+      if (k <= j) hi = j;
+      else if (k >= i) lo = i;
+      else break;
+    }
+  }
+
+  private computeBounds(node: number, start: number, end: number) {
+    const b = node * 6;
+    const box = this.bounds;
+    box[b] = box[b + 1] = box[b + 2] = Infinity;
+    box[b + 3] = box[b + 4] = box[b + 5] = -Infinity;
+    for (let i = start; i < end; i++) {
+      const o = this.order[i] * 9;
+      for (let k = 0; k < 9; k++) {
+        const v = this.corners[o + k];
+        const a = k % 3;
+        if (v < box[b + a]) box[b + a] = v;
+        if (v > box[b + 3 + a]) box[b + 3 + a] = v;
+      }
+    }
+  }
+
+  /** Squared distance from a point to a node's box, 0 inside. */
+  private boxDistanceSq(node: number, x: number, y: number, z: number) {
+    const b = node * 6;
+    const box = this.bounds;
+    const dx = x < box[b] ? box[b] - x : x > box[b + 3] ? x - box[b + 3] : 0;
+    const dy = y < box[b + 1] ? box[b + 1] - y : y > box[b + 4] ? y - box[b + 4] : 0;
+    const dz = z < box[b + 2] ? box[b + 2] - z : z > box[b + 5] ? z - box[b + 5] : 0;
+    return dx * dx + dy * dy + dz * dz;
+  }
+
+  /**
+   * Closest point on any triangle to (x, y, z). `maxDistance` is a known upper
+   * bound (e.g. from a nearby query point) that lets whole subtrees be skipped;
+   * when nothing is closer, `out.triangle` is -1.
+   */
+  closestPoint(x: number, y: number, z: number, out: ClosestHit, maxDistance = Infinity): ClosestHit {
+    out.triangle = -1;
+    out.distance = maxDistance;
+    if (this.empty) return out;
+
+    let bestSq = maxDistance === Infinity ? Infinity : maxDistance * maxDistance;
+    const stack: number[] = [0];
+    const point = CLOSEST;
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (this.boxDistanceSq(node, x, y, z) >= bestSq) continue;
+
+      const count = this.count[node];
+      if (count > 0) {
+        const start = this.offset[node];
+        for (let i = start; i < start + count; i++) {
+          const t = this.order[i];
+          const d = closestOnTriangle(this.corners, t * 9, x, y, z, point);
+          if (d < bestSq) {
+            bestSq = d;
+            out.triangle = t;
+            out.x = point[0];
+            out.y = point[1];
+            out.z = point[2];
+          }
+        }
+        continue;
+      }
+
+      // Visit the nearer child first: it is pushed last
+      const left = this.offset[node];
+      const dl = this.boxDistanceSq(left, x, y, z);
+      const dr = this.boxDistanceSq(left + 1, x, y, z);
+      if (dl < dr) stack.push(left + 1, left);
+      else stack.push(left, left + 1);
+    }
+
+    if (out.triangle >= 0) out.distance = Math.sqrt(bestSq);
+    return out;
+  }
+}
+
+const CLOSEST = new Float64Array(3);
+
+/**
+ * Closest point on triangle `o` (offset into `c`) to p, written to `out`;
+ * returns the squared distance. Voronoi-region method from Ericson,
+ * Real-Time Collision Detection, 5.1.5.
+ */
+function closestOnTriangle(c: Float32Array, o: number, px: number, py: number, pz: number, out: Float64Array) {
+  const ax = c[o], ay = c[o + 1], az = c[o + 2];
+  const abx = c[o + 3] - ax, aby = c[o + 4] - ay, abz = c[o + 5] - az;
+  const acx = c[o + 6] - ax, acy = c[o + 7] - ay, acz = c[o + 8] - az;
+  const apx = px - ax, apy = py - ay, apz = pz - az;
+
+  let qx: number, qy: number, qz: number;
+  const d1 = abx * apx + aby * apy + abz * apz;
+  const d2 = acx * apx + acy * apy + acz * apz;
+  if (d1 <= 0 && d2 <= 0) {
+    qx = ax; qy = ay; qz = az;
+  } else {
+    const bpx = px - c[o + 3], bpy = py - c[o + 4], bpz = pz - c[o + 5];
+    const d3 = abx * bpx + aby * bpy + abz * bpz;
+    const d4 = acx * bpx + acy * bpy + acz * bpz;
+    const cpx = px - c[o + 6], cpy = py - c[o + 7], cpz = pz - c[o + 8];
+    const d5 = abx * cpx + aby * cpy + abz * cpz;
+    const d6 = acx * cpx + acy * cpy + acz * cpz;
+    const vc = d1 * d4 - d3 * d2;
+    const vb = d5 * d2 - d1 * d6;
+    const va = d3 * d6 - d5 * d4;
+
+    if (d3 >= 0 && d4 <= d3) {
+      qx = c[o + 3]; qy = c[o + 4]; qz = c[o + 5];
+    } else if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+      const v = d1 / (d1 - d3);
+      qx = ax + abx * v; qy = ay + aby * v; qz = az + abz * v;
+    } else if (d6 >= 0 && d5 <= d6) {
+      qx = c[o + 6]; qy = c[o + 7]; qz = c[o + 8];
+    } else if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+      const w = d2 / (d2 - d6);
+      qx = ax + acx * w; qy = ay + acy * w; qz = az + acz * w;
+    } else if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+      const w = (d4 - d3) / (d4 - d3 + (d5 - d6));
+      qx = c[o + 3] + (c[o + 6] - c[o + 3]) * w;
+      qy = c[o + 4] + (c[o + 7] - c[o + 4]) * w;
+      qz = c[o + 5] + (c[o + 8] - c[o + 5]) * w;
+    } else {
+      const denom = 1 / (va + vb + vc);
+      const v = vb * denom;
+      const w = vc * denom;
+      qx = ax + abx * v + acx * w; qy = ay + aby * v + acy * w; qz = az + abz * v + acz * w;
+    }
+  }
+
+  out[0] = qx;
+  out[1] = qy;
+  out[2] = qz;
+  const dx = px - qx, dy = py - qy, dz = pz - qz;
+  return dx * dx + dy * dy + dz * dz;
+}
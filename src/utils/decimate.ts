@@ -0,0 +1,587 @@
+import * as THREE from 'three';
+import { defaultWeldTolerance, weldVertices } from './meshTopology';
+import { readTriangles, triangleCount, weldableMeshes } from './scene';
+
+// Passes over the triangles before giving up on reaching the target
+const MAX_ITERATIONS = 100;
+// How fast the collapse threshold grows between passes; higher is faster but rougher
+const AGGRESSIVENESS = 7;
+// Boundary edges get a perpendicular plane this many times heavier than a face
+const BOUNDARY_WEIGHT = 1000;
+// Triangles handled between yields to the JS event loop
+const CHUNK_TRIANGLES = 200000;
+
+/**
+ * Reduces a mesh to about `target` triangles by collapsing edges in order of
+ * quadric error (Garland and Heckbert), in the iterative-threshold form of
+ * Fast Quadric Mesh Simplification: each pass collapses every edge below a
+ * growing error threshold, so there is no priority queue to keep up to date.
+ *
+ * Corners are welded first, so triangle soup from STL simplifies as a
+ * surface. Open boundaries are held in place by planes along their edges and
+ * only collapse along themselves; vertex colours are interpolated along each
+ * collapsed edge, and material groups are kept. Indexed input comes back
+ * indexed with smooth normals, soup comes back as soup with flat normals.
+ */
+export async function decimateGeometry(
+  geometry: THREE.BufferGeometry,
+  target: number,
+  onProgress?: (fraction: number) => void
+): Promise<THREE.BufferGeometry> {
+  const input = readTriangles(geometry);
+  const corners = input.corners;
+  const { positions, triangles } = weldVertices(corners, defaultWeldTolerance(corners));
+  const vertexCount = positions.length / 3;
+  const faceCount = triangles.length / 3;
+
+  // Work in a unit-sized frame so the thresholds do not depend on the model's units
+  const box = new THREE.Box3().setFromArray(positions);
+  const center = box.getCenter(new THREE.Vector3());
+  const scale = box.getSize(new THREE.Vector3()).length() || 1;
+  const p = new Float64Array(vertexCount * 3);
+  for (let v = 0; v < vertexCount; v++) {
+    p[v * 3] = (positions[v * 3] - center.x) / scale;
+    p[v * 3 + 1] = (positions[v * 3 + 1] - center.y) / scale;
+    p[v * 3 + 2] = (positions[v * 3 + 2] - center.z) / scale;
+  }
+
+  // Welded corners with different colours get the average
+  let colors: Float32Array | null = null;
+  if (input.colors) {
+    colors = new Float32Array(vertexCount * 3);
+    const weights = new Uint32Array(vertexCount);
+    for (let c = 0; c < triangles.length; c++) {
+      const v = triangles[c];
+      colors[v * 3] += input.colors[c * 3];
+      colors[v * 3 + 1] += input.colors[c * 3 + 1];
+      colors[v * 3 + 2] += input.colors[c * 3 + 2];
+      weights[v]++;
+    }
+    for (let v = 0; v < vertexCount; v++) {
+      if (weights[v] > 1) for (let k = 0; k < 3; k++) colors[v * 3 + k] /= weights[v];
+    }
+  }
+
+  const mesh = new Simplifier(p, Int32Array.from(triangles), colors, input.groups);
+  await mesh.simplify(Math.max(target, 1), faceCount, onProgress);
+
+  const result = mesh.toGeometry(input.indexed);
+  const position = result.getAttribute('position') as THREE.BufferAttribute;
+  for (let i = 0; i < position.count; i++) {
+    position.setXYZ(
+      i,
+      position.getX(i) * scale + center.x,
+      position.getY(i) * scale + center.y,
+      position.getZ(i) * scale + center.z
+    );
+  }
+  result.computeVertexNormals();
+  return result;
+}
+
+export type Decimation = {
+  meshes: { mesh: THREE.Mesh; original: THREE.BufferGeometry; simplified: THREE.BufferGeometry }[];
+  /** Triangles in the simplified meshes before and after. */
+  before: number;
+  after: number;
+};
+
+export function decimatableTriangles(root: THREE.Object3D) {
+  return weldableMeshes(root).reduce((n, mesh) => n + triangleCount(mesh.geometry), 0);
+}
+
+/**
+ * Simplifies the weldable meshes under `root` to about `ratio` of their
+ * triangles. The meshes keep showing their own geometry until
+ * `showDecimated` swaps the simplified one in.
+ */
+export async function decimateObject(
+  root: THREE.Object3D,
+  ratio: number,
+  onProgress?: (fraction: number) => void
+): Promise<Decimation> {
+  const meshes = weldableMeshes(root);
+  const total = meshes.reduce((n, mesh) => n + triangleCount(mesh.geometry), 0);
+  if (total === 0) throw new Error('There are no untextured triangle meshes to simplify.');
+
+  const result: Decimation = { meshes: [], before: 0, after: 0 };
+  let done = 0;
+  for (const mesh of meshes) {
+    const count = triangleCount(mesh.geometry);
+    const simplified = await decimateGeometry(mesh.geometry, Math.round(count * ratio), fraction =>
+      onProgress?.((done + fraction * count) / total)
+    );
+    done += count;
+    result.meshes.push({ mesh, original: mesh.geometry, simplified });
+    result.before += count;
+    result.after += triangleCount(simplified);
+  }
+  return result;
+}
+
+export function showDecimated(decimation: Decimation, simplified: boolean) {
+  for (const entry of decimation.meshes) {
+    entry.mesh.geometry = simplified ? entry.simplified : entry.original;
+  }
+}
+
+/** Settles on one version of each mesh and frees the other. */
+export function finishDecimation(decimation: Decimation, keep: 'original' | 'simplified') {
+  showDecimated(decimation, keep === 'simplified');
+  for (const entry of decimation.meshes) {
+    (keep === 'simplified' ? entry.original : entry.simplified).dispose();
+  }
+}
+
+/**
+ * Quadrics are symmetric 4x4 matrices stored as their upper triangle:
+ * a11 a12 a13 a14 a22 a23 a24 a33 a34 a44.
+ */
+class Simplifier {
+  private q: Float64Array;
+  private border: Uint8Array;
+  private faces: Int32Array;
+  private faceNormals: Float64Array;
+  private faceErrors: Float64Array;
+  private deleted: Uint8Array;
+  private dirty: Uint8Array;
+  // Triangles around each vertex, as (face, corner) pairs in refFace/refCorner
+  private refStart: Int32Array;
+  private refCount: Int32Array;
+  private refFace = new Int32Array(0);
+  private refCorner = new Int8Array(0);
+  private refSize = 0;
+  private result = new Float64Array(3);
+  private lastError = 0;
+
+  constructor(
+    private p: Float64Array,
+    faces: Int32Array,
+    private colors: Float32Array | null,
+    private groups: Int32Array | null
+  ) {
+    const vertexCount = p.length / 3;
+    const faceCount = faces.length / 3;
+    this.faces = faces;
+    this.q = new Float64Array(vertexCount * 10);
+    this.border = new Uint8Array(vertexCount);
+    this.refStart = new Int32Array(vertexCount);
+    this.refCount = new Int32Array(vertexCount);
+    this.faceNormals = new Float64Array(faceCount * 3);
+    this.faceErrors = new Float64Array(faceCount * 4);
+    this.deleted = new Uint8Array(faceCount);
+    this.dirty = new Uint8Array(faceCount);
+  }
+
+  async simplify(target: number, faceCount: number, onProgress?: (fraction: number) => void) {
+    const { faces, deleted, dirty, faceErrors, border } = this;
+    let deletedCount = this.dropDegenerate(faceCount);
+    const toRemove = Math.max(faceCount - deletedCount - target, 1);
+    const progress = () => Math.min(Math.max(1 - (faceCount - deletedCount - target) / toRemove, 0), 0.99);
+    let handled = 0;
+    // Scratch flags for the triangles around each end of an edge
+    let flags0 = new Uint8Array(64);
+    let flags1 = new Uint8Array(64);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      if (faceCount - deletedCount <= target) break;
+      if (iteration % 5 === 0) this.update(iteration);
+      dirty.fill(0);
+      const threshold = 1e-9 * Math.pow(iteration + 3, AGGRESSIVENESS);
+
+      for (let f = 0; f < faceCount; f++) {
+        if (++handled % CHUNK_TRIANGLES === 0) {
+          onProgress?.(progress());
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+        if (faceErrors[f * 4 + 3] > threshold || deleted[f] || dirty[f]) continue;
+
+        for (let j = 0; j < 3; j++) {
+          if (faceErrors[f * 4 + j] >= threshold) continue;
+          const i0 = faces[f * 3 + j];
+          const i1 = faces[f * 3 + ((j + 1) % 3)];
+          // Boundary vertices may only slide along the boundary
+          if (border[i0] !== border[i1]) continue;
+
+          const t = this.edgeError(i0, i1);
+          const px = this.result[0], py = this.result[1], pz = this.result[2];
+          if (flags0.length < this.refCount[i0]) flags0 = new Uint8Array(this.refCount[i0] * 2);
+          if (flags1.length < this.refCount[i1]) flags1 = new Uint8Array(this.refCount[i1] * 2);
+          if (this.flipped(px, py, pz, i0, i1, flags0) || this.flipped(px, py, pz, i1, i0, flags1)) continue;
+
+          const { p, q, colors } = this;
+          p[i0 * 3] = px;
+          p[i0 * 3 + 1] = py;
+          p[i0 * 3 + 2] = pz;
+          for (let k = 0; k < 10; k++) q[i0 * 10 + k] += q[i1 * 10 + k];
+          if (colors) {
+            for (let k = 0; k < 3; k++) colors[i0 * 3 + k] += (colors[i1 * 3 + k] - colors[i0 * 3 + k]) * t;
+          }
+
+          const start = this.refSize;
+          deletedCount += this.updateFaces(i0, i0, flags0);
+          deletedCount += this.updateFaces(i0, i1, flags1);
+          const count = this.refSize - start;
+          if (count <= this.refCount[i0]) {
+            // Reuse the old slot to keep the reference list from growing
+            this.refFace.copyWithin(this.refStart[i0], start, start + count);
+            this.refCorner.copyWithin(this.refStart[i0], start, start + count);
+            this.refSize = start;
+          } else {
+            this.refStart[i0] = start;
+          }
+          this.refCount[i0] = count;
+          break;
+        }
+        if (faceCount - deletedCount <= target) break;
+      }
+      onProgress?.(progress());
+    }
+    onProgress?.(1);
+  }
+
+  /** Removes zero-area triangles up front, they have no normal to check flips against. */
+  private dropDegenerate(faceCount: number) {
+    const { faces, deleted } = this;
+    let count = 0;
+    for (let f = 0; f < faceCount; f++) {
+      const a = faces[f * 3], b = faces[f * 3 + 1], c = faces[f * 3 + 2];
+      if (a === b || b === c || a === c) {
+        deleted[f] = 1;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Rebuilds the vertex-to-triangle references from the live triangles. The
+   * first call also sets up quadrics, boundary flags and edge errors.
+   */
+  private update(iteration: number) {
+    const { faces, deleted, p, q, refStart, refCount } = this;
+    const faceCount = faces.length / 3;
+
+    if (iteration === 0) {
+      for (let f = 0; f < faceCount; f++) {
+        if (deleted[f]) continue;
+        const n = this.faceNormal(f);
+        const a = faces[f * 3];
+        const d = -(n[0] * p[a * 3] + n[1] * p[a * 3 + 1] + n[2] * p[a * 3 + 2]);
+        for (let j = 0; j < 3; j++) addPlane(q, faces[f * 3 + j], n[0], n[1], n[2], d, 1);
+      }
+    }
+
+    refCount.fill(0);
+    for (let f = 0; f < faceCount; f++) {
+      if (deleted[f]) continue;
+      for (let j = 0; j < 3; j++) refCount[faces[f * 3 + j]]++;
+    }
+    let total = 0;
+    for (let v = 0; v < refCount.length; v++) {
+      refStart[v] = total;
+      total += refCount[v];
+      refCount[v] = 0;
+    }
+    // Collapses append to the list; leave room so it rarely has to grow
+    if (this.refFace.length < total * 2) {
+      this.refFace = new Int32Array(total * 2);
+      this.refCorner = new Int8Array(total * 2);
+    }
+    for (let f = 0; f < faceCount; f++) {
+      if (deleted[f]) continue;
+      for (let j = 0; j < 3; j++) {
+        const v = faces[f * 3 + j];
+        const slot = refStart[v] + refCount[v]++;
+        this.refFace[slot] = f;
+        this.refCorner[slot] = j;
+      }
+    }
+    this.refSize = total;
+
+    if (iteration === 0) {
+      this.markBorders();
+      for (let f = 0; f < faceCount; f++) {
+        if (deleted[f]) continue;
+        this.updateFaceErrors(f);
+      }
+    }
+  }
+
+  /**
+   * An edge used by a single triangle is on the boundary. Both its ends are
+   * flagged, and a plane through the edge, perpendicular to the triangle,
+   * is added to their quadrics so the outline keeps its shape.
+   */
+  private markBorders() {
+    const { faces, deleted, p, q, border, faceNormals, refStart, refCount, refFace } = this;
+    const faceCount = faces.length / 3;
+    for (let f = 0; f < faceCount; f++) {
+      if (deleted[f]) continue;
+      for (let j = 0; j < 3; j++) {
+        const a = faces[f * 3 + j];
+        const b = faces[f * 3 + ((j + 1) % 3)];
+        let shared = 0;
+        for (let k = refStart[a]; k < refStart[a] + refCount[a]; k++) {
+          const g = refFace[k];
+          if (faces[g * 3] === b || faces[g * 3 + 1] === b || faces[g * 3 + 2] === b) shared++;
+        }
+        if (shared !== 1) continue;
+
+        border[a] = 1;
+        border[b] = 1;
+        const ex = p[b * 3] - p[a * 3], ey = p[b * 3 + 1] - p[a * 3 + 1], ez = p[b * 3 + 2] - p[a * 3 + 2];
+        const fx = faceNormals[f * 3], fy = faceNormals[f * 3 + 1], fz = faceNormals[f * 3 + 2];
+        let nx = ey * fz - ez * fy, ny = ez * fx - ex * fz, nz = ex * fy - ey * fx;
+        const length = Math.hypot(nx, ny, nz);
+        if (length === 0) continue;
+        nx /= length;
+        ny /= length;
+        nz /= length;
+        const d = -(nx * p[a * 3] + ny * p[a * 3 + 1] + nz * p[a * 3 + 2]);
+        addPlane(q, a, nx, ny, nz, d, BOUNDARY_WEIGHT);
+        addPlane(q, b, nx, ny, nz, d, BOUNDARY_WEIGHT);
+      }
+    }
+  }
+
+  private faceNormal(f: number) {
+    const { faces, p, faceNormals } = this;
+    const a = faces[f * 3] * 3, b = faces[f * 3 + 1] * 3, c = faces[f * 3 + 2] * 3;
+    const ux = p[b] - p[a], uy = p[b + 1] - p[a + 1], uz = p[b + 2] - p[a + 2];
+    const vx = p[c] - p[a], vy = p[c + 1] - p[a + 1], vz = p[c + 2] - p[a + 2];
+    let nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+    const length = Math.hypot(nx, ny, nz) || 1;
+    nx /= length;
+    ny /= length;
+    nz /= length;
+    faceNormals[f * 3] = nx;
+    faceNormals[f * 3 + 1] = ny;
+    faceNormals[f * 3 + 2] = nz;
+    return [nx, ny, nz];
+  }
+
+  private updateFaceErrors(f: number) {
+    const { faces, faceErrors } = this;
+    let min = Infinity;
+    for (let j = 0; j < 3; j++) {
+      this.edgeError(faces[f * 3 + j], faces[f * 3 + ((j + 1) % 3)]);
+      faceErrors[f * 4 + j] = this.lastError;
+      if (this.lastError < min) min = this.lastError;
+    }
+    faceErrors[f * 4 + 3] = min;
+  }
+
+  /**
+   * Error of collapsing edge a-b, left in `lastError` with the best position
+   * in `result`.
+   * Returns where that position lies along the edge, 0 at a and 1 at b, for
+   * interpolating colours.
+   */
+  private edgeError(a: number, b: number): number {
+    const { q, p, border, result } = this;
+    const m = QUADRIC;
+    for (let k = 0; k < 10; k++) m[k] = q[a * 10 + k] + q[b * 10 + k];
+
+    const det = det3(m, 0, 1, 2, 1, 4, 5, 2, 5, 7);
+    if (det !== 0 && !(border[a] && border[b])) {
+      const x = (-1 / det) * det3(m, 1, 2, 3, 4, 5, 6, 5, 7, 8);
+      const y = (1 / det) * det3(m, 0, 2, 3, 1, 5, 6, 2, 7, 8);
+      const z = (-1 / det) * det3(m, 0, 1, 3, 1, 4, 6, 2, 5, 8);
+      result[0] = x;
+      result[1] = y;
+      result[2] = z;
+      this.lastError = quadricError(m, x, y, z);
+      return edgeParameter(p, a, b, x, y, z);
+    }
+
+    // Singular or along a boundary: the better of the two ends and the midpoint
+    let best = Infinity;
+    let bestT = 0;
+    for (const t of [0, 1, 0.5]) {
+      const x = p[a * 3] + (p[b * 3] - p[a * 3]) * t;
+      const y = p[a * 3 + 1] + (p[b * 3 + 1] - p[a * 3 + 1]) * t;
+      const z = p[a * 3 + 2] + (p[b * 3 + 2] - p[a * 3 + 2]) * t;
+      const error = quadricError(m, x, y, z);
+      if (error < best) {
+        best = error;
+        bestT = t;
+        result[0] = x;
+        result[1] = y;
+        result[2] = z;
+      }
+    }
+    this.lastError = best;
+    return bestT;
+  }
+
+  /**
+   * Whether moving vertex `i0` to (px, py, pz) would fold one of its
+   * triangles over or make it a sliver. Triangles that also use `i1` vanish
+   * with the collapse and are flagged in `flags` instead.
+   */
+  private flipped(px: number, py: number, pz: number, i0: number, i1: number, flags: Uint8Array) {
+    const { faces, p, deleted, faceNormals, refStart, refCount, refFace, refCorner } = this;
+    for (let k = 0; k < refCount[i0]; k++) {
+      const f = refFace[refStart[i0] + k];
+      if (deleted[f]) continue;
+      const s = refCorner[refStart[i0] + k];
+      const id1 = faces[f * 3 + ((s + 1) % 3)];
+      const id2 = faces[f * 3 + ((s + 2) % 3)];
+      if (id1 === i1 || id2 === i1) {
+        flags[k] = 1;
+        continue;
+      }
+
+      let ax = p[id1 * 3] - px, ay = p[id1 * 3 + 1] - py, az = p[id1 * 3 + 2] - pz;
+      let bx = p[id2 * 3] - px, by = p[id2 * 3 + 1] - py, bz = p[id2 * 3 + 2] - pz;
+      const la = Math.hypot(ax, ay, az) || 1;
+      const lb = Math.hypot(bx, by, bz) || 1;
+      ax /= la; ay /= la; az /= la;
+      bx /= lb; by /= lb; bz /= lb;
+      if (Math.abs(ax * bx + ay * by + az * bz) > 0.999) return true;
+
+      let nx = ay * bz - az * by, ny = az * bx - ax * bz, nz = ax * by - ay * bx;
+      const ln = Math.hypot(nx, ny, nz) || 1;
+      nx /= ln; ny /= ln; nz /= ln;
+      flags[k] = 0;
+      if (nx * faceNormals[f * 3] + ny * faceNormals[f * 3 + 1] + nz * faceNormals[f * 3 + 2] < 0.2) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Points the triangles of `v` at `i0` after a collapse, deleting those
+   * flagged as vanishing, and appends the survivors to the reference list.
+   * Returns how many triangles were deleted.
+   */
+  private updateFaces(i0: number, v: number, flags: Uint8Array) {
+    const { faces, deleted, dirty, refStart, refCount } = this;
+    let removed = 0;
+    for (let k = 0; k < refCount[v]; k++) {
+      const f = this.refFace[refStart[v] + k];
+      const corner = this.refCorner[refStart[v] + k];
+      if (deleted[f]) continue;
+      if (flags[k]) {
+        deleted[f] = 1;
+        removed++;
+        continue;
+      }
+      faces[f * 3 + corner] = i0;
+      dirty[f] = 1;
+      this.faceNormal(f);
+      this.updateFaceErrors(f);
+      this.pushRef(f, corner);
+    }
+    return removed;
+  }
+
+  private pushRef(face: number, corner: number) {
+    if (this.refSize === this.refFace.length) {
+      const faces = new Int32Array(this.refFace.length * 2 + 16);
+      const corners = new Int8Array(faces.length);
+      faces.set(this.refFace);
+      corners.set(this.refCorner);
+      this.refFace = faces;
+      this.refCorner = corners;
+    }
+    this.refFace[this.refSize] = face;
+    this.refCorner[this.refSize] = corner;
+    this.refSize++;
+  }
+
+  /** The live triangles, sorted by material group, as indexed or soup geometry. */
+  toGeometry(indexed: boolean): THREE.BufferGeometry {
+    const { faces, deleted, p, colors, groups } = this;
+    const live: number[] = [];
+    for (let f = 0; f < deleted.length; f++) if (!deleted[f]) live.push(f);
+    if (groups) live.sort((a, b) => groups[a] - groups[b]);
+
+    const geometry = new THREE.BufferGeometry();
+    if (indexed) {
+      const remap = new Int32Array(p.length / 3).fill(-1);
+      const index: number[] = [];
+      let count = 0;
+      for (const f of live) {
+        for (let j = 0; j < 3; j++) {
+          const v = faces[f * 3 + j];
+          if (remap[v] < 0) remap[v] = count++;
+          index.push(remap[v]);
+        }
+      }
+      const positions = new Float32Array(count * 3);
+      const outColors = colors ? new Float32Array(count * 3) : null;
+      for (let v = 0; v < remap.length; v++) {
+        if (remap[v] < 0) continue;
+        for (let k = 0; k < 3; k++) {
+          positions[remap[v] * 3 + k] = p[v * 3 + k];
+          if (outColors && colors) outColors[remap[v] * 3 + k] = colors[v * 3 + k];
+        }
+      }
+      geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+      if (outColors) geometry.setAttribute('color', new THREE.BufferAttribute(outColors, 3));
+      geometry.setIndex(index);
+    } else {
+      const positions = new Float32Array(live.length * 9);
+      const outColors = colors ? new Float32Array(live.length * 9) : null;
+      live.forEach((f, i) => {
+        for (let j = 0; j < 3; j++) {
+          const v = faces[f * 3 + j];
+          for (let k = 0; k < 3; k++) {
+            positions[i * 9 + j * 3 + k] = p[v * 3 + k];
+            if (outColors && colors) outColors[i * 9 + j * 3 + k] = colors[v * 3 + k];
+          }
+        }
+      });
+      geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+      if (outColors) geometry.setAttribute('color', new THREE.BufferAttribute(outColors, 3));
+    }
+
+    if (groups) {
+      let start = 0;
+      for (let i = 1; i <= live.length; i++) {
+        if (i === live.length || groups[live[i]] !== groups[live[start]]) {
+          geometry.addGroup(start * 3, (i - start) * 3, groups[live[start]]);
+          start = i;
+        }
+      }
+    }
+    return geometry;
+  }
+}
+
+const QUADRIC = new Float64Array(10);
+
+function addPlane(q: Float64Array, v: number, a: number, b: number, c: number, d: number, weight: number) {
+  const o = v * 10;
+  q[o] += weight * a * a;
+  q[o + 1] += weight * a * b;
+  q[o + 2] += weight * a * c;
+  q[o + 3] += weight * a * d;
+  q[o + 4] += weight * b * b;
+  q[o + 5] += weight * b * c;
+  q[o + 6] += weight * b * d;
+  q[o + 7] += weight * c * c;
+  q[o + 8] += weight * c * d;
+  q[o + 9] += weight * d * d;
+}
+
+function det3(m: Float64Array, a11: number, a12: number, a13: number, a21: number, a22: number, a23: number, a31: number, a32: number, a33: number) {
+  return m[a11] * m[a22] * m[a33] + m[a13] * m[a21] * m[a32] + m[a12] * m[a23] * m[a31]
+    - m[a13] * m[a22] * m[a31] - m[a11] * m[a23] * m[a32] - m[a12] * m[a21] * m[a33];
+}
+
+function quadricError(m: Float64Array, x: number, y: number, z: number) {
+  return m[0] * x * x + 2 * m[1] * x * y + 2 * m[2] * x * z + 2 * m[3] * x
+    + m[4] * y * y + 2 * m[5] * y * z + 2 * m[6] * y
+    + m[7] * z * z + 2 * m[8] * z + m[9];
+}
+
+/** Position of (x, y, z) projected onto edge a-b, clamped to 0..1. */
+function edgeParameter(p: Float64Array, a: number, b: number, x: number, y: number, z: number) {
+  const ex = p[b * 3] - p[a * 3], ey = p[b * 3 + 1] - p[a * 3 + 1], ez = p[b * 3 + 2] - p[a * 3 + 2];
+  const length2 = ex * ex + ey * ey + ez * ez;
+  if (length2 === 0) return 0;
+  const t = ((x - p[a * 3]) * ex + (y - p[a * 3 + 1]) * ey + (z - p[a * 3 + 2]) * ez) / length2;
+  return Math.min(Math.max(t, 0), 1);
+}
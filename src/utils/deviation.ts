@@ -0,0 +1,290 @@
+import * as THREE from 'three';
+import { TriangleBVH, ClosestHit } from './bvh';
+import { defaultWeldTolerance, edgeKey, weldVertices } from './meshTopology';
+import { collectTriangles } from './scene';
+
+export type ColorMapName = 'blue-red' | 'purple-orange' | 'rainbow';
+
+// Diverging maps: negative deviation at 0, none at 0.5, positive at 1
+export const COLOR_MAPS: Record<ColorMapName, { label: string; stops: string[] }> = {
+  'blue-red': { label: 'Blue–Red', stops: ['#2166ac', '#67a9cf', '#f7f7f7', '#ef8a62', '#b2182b'] },
+  'purple-orange': { label: 'Purple–Orange', stops: ['#542788', '#998ec3', '#f7f7f7', '#f1a340', '#b35806'] },
+  rainbow: { label: 'Rainbow', stops: ['#0000ff', '#00ffff', '#00ff00', '#ffff00', '#ff0000'] },
+};
+
+export type DeviationResult = {
+  /** Signed distance per vertex of each test mesh, positive outside the reference. */
+  meshes: { mesh: THREE.Mesh; distances: Float32Array }[];
+  min: number;
+  max: number;
+  mean: number;
+  rms: number;
+};
+
+// Vertices measured between yields to the JS event loop
+const CHUNK_VERTICES = 20000;
+
+/**
+ * Signed distance from every vertex of the meshes under `test` to the closest
+ * point on the meshes under `reference`, both taken in `frame`'s coordinates.
+ * The sign comes from the normal at the closest point, an angle-weighted
+ * pseudo-normal where that is an edge or corner, so the sign stays right along
+ * creases; the reference should be consistently wound. Consecutive vertices
+ * are usually neighbours, so each query is bounded by the previous distance
+ * plus the step between them.
+ */
+export async function computeDeviation(
+  test: THREE.Object3D,
+  reference: THREE.Object3D,
+  frame: THREE.Object3D,
+  onProgress?: (fraction: number) => void
+): Promise<DeviationResult> {
+  const corners = collectTriangles(reference, frame);
+  const bvh = new TriangleBVH(corners);
+  if (bvh.empty) throw new Error('The reference model has no triangles.');
+  const normals = pseudoNormals(corners);
+
+  const meshes: THREE.Mesh[] = [];
+  let total = 0;
+  frame.updateMatrixWorld(true);
+  test.traverseVisible((child: any) => {
+    if (!child.isMesh || child.userData.helper) return;
+    meshes.push(child);
+    total += child.geometry.getAttribute('position').count;
+  });
+
+  const frameInverse = frame.matrixWorld.clone().invert();
+  const matrix = new THREE.Matrix4();
+  const v = new THREE.Vector3();
+  const hit: ClosestHit = { distance: 0, triangle: -1, x: 0, y: 0, z: 0 };
+  let done = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let sumSq = 0;
+  const result: DeviationResult['meshes'] = [];
+
+  for (const mesh of meshes) {
+    matrix.multiplyMatrices(frameInverse, mesh.matrixWorld);
+    const position = mesh.geometry.getAttribute('position');
+    const distances = new Float32Array(position.count);
+    let px = 0, py = 0, pz = 0;
+    let previous = Infinity;
+
+    for (let i = 0; i < position.count; i++) {
+      v.fromBufferAttribute(position, i).applyMatrix4(matrix);
+      const step = Math.hypot(v.x - px, v.y - py, v.z - pz);
+      // The bound only prunes; fall back to a full search when it was too tight
+      bvh.closestPoint(v.x, v.y, v.z, hit, previous + step + 1e-9);
+      if (hit.triangle < 0) bvh.closestPoint(v.x, v.y, v.z, hit);
+
+      const d = hit.distance * sideOf(normals, corners, hit, v);
+      distances[i] = d;
+      if (d < min) min = d;
+      if (d > max) max = d;
+      sum += d;
+      sumSq += d * d;
+      previous = hit.distance;
+      px = v.x;
+      py = v.y;
+      pz = v.z;
+
+      if (++done % CHUNK_VERTICES === 0) {
+        onProgress?.(done / total);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+    result.push({ mesh, distances });
+  }
+  onProgress?.(1);
+
+  if (total === 0) throw new Error('The test model has no vertices.');
+  return { meshes: result, min, max, mean: sum / total, rms: Math.sqrt(sumSq / total) };
+}
+
+type PseudoNormals = {
+  /** Welded vertex of each triangle corner. */
+  vertexOf: Uint32Array;
+  vertexCount: number;
+  face: Float32Array;
+  vertex: Float32Array;
+  /** Offset into `edge` by edgeKey of the lower and higher vertex. */
+  edgeIndex: Map<number, number>;
+  edge: Float32Array;
+};
+
+/**
+ * Normals for the sign test at every feature of the reference (Bærentzen and
+ * Aanæs): faces use their own, edges the sum of the faces sharing them and
+ * vertices the faces around them weighted by their angle there. With these a
+ * point outside a closed surface is always on the front side of the normal at
+ * its closest point, which a single face's normal does not guarantee on edges.
+ */
+function pseudoNormals(corners: Float32Array): PseudoNormals {
+  const { positions, triangles } = weldVertices(corners, defaultWeldTolerance(corners));
+  const vertexCount = positions.length / 3;
+  const face = new Float32Array(triangles.length);
+  const vertex = new Float32Array(positions.length);
+  const edge = new Float32Array(triangles.length * 3);
+  const edgeIndex = new Map<number, number>();
+  const p = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const n = new THREE.Vector3();
+  const e1 = new THREE.Vector3();
+  const e2 = new THREE.Vector3();
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    for (let j = 0; j < 3; j++) p[j].fromArray(positions, triangles[t + j] * 3);
+    n.subVectors(p[1], p[0]).cross(e1.subVectors(p[2], p[0])).normalize();
+    n.toArray(face, t);
+
+    for (let j = 0; j < 3; j++) {
+      const a = triangles[t + j];
+      const b = triangles[t + ((j + 1) % 3)];
+      e1.subVectors(p[(j + 1) % 3], p[j]).normalize();
+      e2.subVectors(p[(j + 2) % 3], p[j]).normalize();
+      const angle = Math.acos(THREE.MathUtils.clamp(e1.dot(e2), -1, 1));
+      vertex[a * 3] += n.x * angle;
+      vertex[a * 3 + 1] += n.y * angle;
+      vertex[a * 3 + 2] += n.z * angle;
+
+      const key = edgeKey(Math.min(a, b), Math.max(a, b), vertexCount);
+      let o = edgeIndex.get(key);
+      if (o === undefined) {
+        o = edgeIndex.size * 3;
+        edgeIndex.set(key, o);
+      }
+      edge[o] += n.x;
+      edge[o + 1] += n.y;
+      edge[o + 2] += n.z;
+    }
+  }
+  return { vertexOf: triangles, vertexCount, face, vertex, edgeIndex, edge };
+}
+
+// Barycentric weight below which the closest point is taken to be on an edge or corner
+const FEATURE_EPSILON = 1e-6;
+
+/** +1 when the point lies on the front side of the reference at its closest point, -1 behind it. */
+function sideOf(normals: PseudoNormals, corners: Float32Array, hit: ClosestHit, p: THREE.Vector3) {
+  const t = hit.triangle;
+  const o = t * 9;
+  // Barycentric coordinates of the closest point tell which feature it lies on
+  const abx = corners[o + 3] - corners[o], aby = corners[o + 4] - corners[o + 1], abz = corners[o + 5] - corners[o + 2];
+  const acx = corners[o + 6] - corners[o], acy = corners[o + 7] - corners[o + 1], acz = corners[o + 8] - corners[o + 2];
+  const apx = hit.x - corners[o], apy = hit.y - corners[o + 1], apz = hit.z - corners[o + 2];
+  const d00 = abx * abx + aby * aby + abz * abz;
+  const d01 = abx * acx + aby * acy + abz * acz;
+  const d11 = acx * acx + acy * acy + acz * acz;
+  const d20 = apx * abx + apy * aby + apz * abz;
+  const d21 = apx * acx + apy * acy + apz * acz;
+  const denom = d00 * d11 - d01 * d01;
+  const wb = denom > 0 ? (d11 * d20 - d01 * d21) / denom : 0;
+  const wc = denom > 0 ? (d00 * d21 - d01 * d20) / denom : 0;
+  const weights = [1 - wb - wc, wb, wc];
+  const onFeature = weights.map(w => w > FEATURE_EPSILON);
+
+  let source = normals.face;
+  let offset = t * 3;
+  const inside = onFeature.filter(Boolean).length;
+  if (inside === 1) {
+    source = normals.vertex;
+    offset = normals.vertexOf[t * 3 + onFeature.indexOf(true)] * 3;
+  } else if (inside === 2) {
+    const a = normals.vertexOf[t * 3 + onFeature.indexOf(true)];
+    const b = normals.vertexOf[t * 3 + onFeature.lastIndexOf(true)];
+    const edge = normals.edgeIndex.get(edgeKey(Math.min(a, b), Math.max(a, b), normals.vertexCount));
+    if (edge !== undefined) {
+      source = normals.edge;
+      offset = edge;
+    }
+  }
+  const side = (p.x - hit.x) * source[offset] + (p.y - hit.y) * source[offset + 1] + (p.z - hit.z) * source[offset + 2];
+  return side < 0 ? -1 : 1;
+}
+
+/** Share of vertices whose deviation is within ±tolerance, 0..1. */
+export function withinTolerance(result: DeviationResult, tolerance: number) {
+  let inside = 0;
+  let total = 0;
+  for (const { distances } of result.meshes) {
+    for (let i = 0; i < distances.length; i++) {
+      if (Math.abs(distances[i]) <= tolerance) inside++;
+    }
+    total += distances.length;
+  }
+  return total > 0 ? inside / total : 0;
+}
+
+/** Colour for t in 0..1, interpolated between the map's stops. */
+export function sampleColorMap(name: ColorMapName, t: number, target: THREE.Color) {
+  const stops = COLOR_MAPS[name].stops;
+  const x = THREE.MathUtils.clamp(t, 0, 1) * (stops.length - 1);
+  const i = Math.min(Math.floor(x), stops.length - 2);
+  return target.set(stops[i]).lerp(SCRATCH.set(stops[i + 1]), x - i);
+}
+
+const SCRATCH = new THREE.Color();
+
+/**
+ * Shows the deviation as vertex colours: values are mapped from -range..range
+ * onto the colour map, and those within ±tolerance get the map's centre
+ * colour. The meshes' own geometry and material are kept in userData and put
+ * back by `clearDeviationColors`.
+ */
+export function applyDeviationColors(result: DeviationResult, map: ColorMapName, range: number, tolerance: number) {
+  const color = new THREE.Color();
+  const centre = sampleColorMap(map, 0.5, new THREE.Color());
+
+  for (const { mesh, distances } of result.meshes) {
+    if (!mesh.userData.deviationOriginal) {
+      const original = { geometry: mesh.geometry, material: mesh.material };
+      const geometry = new THREE.BufferGeometry();
+      for (const name of ['position', 'normal'] as const) {
+        const attribute = original.geometry.getAttribute(name);
+        if (attribute) geometry.setAttribute(name, attribute);
+      }
+      geometry.setIndex(original.geometry.index);
+      geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(distances.length * 3), 3));
+
+      const materials = Array.isArray(original.material) ? original.material : [original.material];
+      mesh.geometry = geometry;
+      mesh.material = new THREE.MeshStandardMaterial({
+        vertexColors: true,
+        metalness: 0.1,
+        roughness: 0.7,
+        side: THREE.DoubleSide,
+        clippingPlanes: materials[0].clippingPlanes,
+        wireframe: (materials[0] as THREE.MeshStandardMaterial).wireframe,
+      });
+      (mesh.material as THREE.Material).userData.deviation = true;
+      mesh.userData.deviationOriginal = original;
+    }
+
+    const colors = mesh.geometry.getAttribute('color') as THREE.BufferAttribute;
+    for (let i = 0; i < distances.length; i++) {
+      const d = distances[i];
+      if (Math.abs(d) <= tolerance) color.copy(centre);
+      else sampleColorMap(map, range > 0 ? 0.5 + d / (2 * range) : 0.5, color);
+      colors.setXYZ(i, color.r, color.g, color.b);
+    }
+    colors.needsUpdate = true;
+  }
+}
+
+export function clearDeviationColors(result: DeviationResult) {
+  for (const { mesh } of result.meshes) {
+    const original = mesh.userData.deviationOriginal;
+    if (!original) continue;
+    (mesh.material as THREE.Material).dispose();
+    // Only the colour attribute is the heatmap's own; detach the shared ones so
+    // disposing does not free the original's GPU buffers
+    const geometry = mesh.geometry;
+    geometry.deleteAttribute('position');
+    geometry.deleteAttribute('normal');
+    geometry.setIndex(null);
+    geometry.dispose();
+    mesh.geometry = original.geometry;
+    mesh.material = original.material;
+    delete mesh.userData.deviationOriginal;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * An error the user can act on when opening a model. `title` is a short
+ * heading for the UI, `message` says what went wrong and what to do about it.
+ */
+export class ModelLoadError extends Error {
+  constructor(readonly title: string, message: string) {
+    super(message);
+    this.name = 'ModelLoadError';
+  }
+}
+
+/**
+ * A landmark sidecar that could not be read. It has been moved aside to
+ * `backupUri`, so landmarks saved from now on do not overwrite it.
+ */
+export class LandmarkFileError extends Error {
+  constructor(readonly backupUri: string, message: string) {
+    super(message);
+    this.name = 'LandmarkFileError';
+  }
+}
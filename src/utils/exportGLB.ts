@@ -0,0 +1,288 @@
+import * as THREE from 'three';
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const MODE_POINTS = 0;
+const MODE_TRIANGLES = 4;
+
+type Json = Record<string, any>;
+
+/**
+ * Writes `root` and everything under it as a binary glTF 2.0 file, with the
+ * materials as currently displayed. Nothing is read back from the GPU or a
+ * canvas: textures are written from the encoded image kept in
+ * `texture.userData.source` by the loader, and skipped when there is none.
+ * The root's own transform is left out, so coordinates stay in file units
+ * unless `scale` converts them, as a scale on the root node.
+ */
+export function exportGLB(root: THREE.Object3D, options: { scale?: number } = {}): ArrayBuffer {
+  const writer = new GlbWriter();
+  root.updateMatrixWorld(true);
+  const rootNode = writer.addNode(root, true);
+  if (rootNode !== null && options.scale !== undefined && options.scale !== 1) {
+    writer.json.nodes[rootNode].scale = [options.scale, options.scale, options.scale];
+  }
+  writer.json.scenes = [{ nodes: rootNode === null ? [] : [rootNode] }];
+  return writer.toArrayBuffer();
+}
+
+class GlbWriter {
+  readonly json: Json = {
+    asset: { version: '2.0', generator: 'dicom-stl-viewer' },
+    scene: 0,
+    nodes: [],
+    meshes: [],
+    materials: [],
+    accessors: [],
+    bufferViews: [],
+  };
+  private chunks: Uint8Array[] = [];
+  private byteLength = 0;
+  private materialIndex = new Map<THREE.Material, number>();
+  private textureIndex = new Map<THREE.Texture, number | null>();
+
+  addNode(object: THREE.Object3D, isRoot = false): number | null {
+    if (object.userData.helper || !object.visible) return null;
+
+    const node: Json = {};
+    if (object.name) node.name = object.name;
+    if (!isRoot) {
+      const p = object.position;
+      const q = object.quaternion;
+      const s = object.scale;
+      if (p.x !== 0 || p.y !== 0 || p.z !== 0) node.translation = p.toArray();
+      if (q.x !== 0 || q.y !== 0 || q.z !== 0 || q.w !== 1) node.rotation = q.toArray();
+      if (s.x !== 1 || s.y !== 1 || s.z !== 1) node.scale = s.toArray();
+    }
+
+    const drawable = object as THREE.Mesh | THREE.Points;
+    if ((drawable as any).isMesh || (drawable as any).isPoints) {
+      const mesh = this.addMesh(drawable);
+      if (mesh !== null) node.mesh = mesh;
+    }
+
+    const children = object.children
+      .map(child => this.addNode(child))
+      .filter((index): index is number => index !== null);
+    if (children.length > 0) node.children = children;
+
+    this.json.nodes.push(node);
+    return this.json.nodes.length - 1;
+  }
+
+  private addMesh(object: THREE.Mesh | THREE.Points): number | null {
+    const geometry = object.geometry as THREE.BufferGeometry;
+    const position = geometry.getAttribute('position');
+    if (!position || position.count === 0) return null;
+    const isPoints = (object as any).isPoints === true;
+    const materials = Array.isArray(object.material) ? object.material : [object.material];
+
+    const attributes: Json = { POSITION: this.addAttribute(position, 3, true) };
+    const normal = geometry.getAttribute('normal');
+    if (normal && !isPoints) attributes.NORMAL = this.addAttribute(normal, 3);
+    const uv = geometry.getAttribute('uv');
+    if (uv && !isPoints) attributes.TEXCOORD_0 = this.addAttribute(uv, 2, false, true);
+    // glTF always multiplies COLOR_0 in, so only primitives whose material uses it get it
+    const color = geometry.getAttribute('color');
+    const colored = color && materials.some(m => m.vertexColors)
+      ? { ...attributes, COLOR_0: this.addAttribute(color, color.itemSize === 4 ? 4 : 3) }
+      : attributes;
+
+    // One primitive per material group, OBJ files with several materials have several
+    const groups = geometry.groups.length > 0 && !isPoints
+      ? geometry.groups
+      : [{ start: 0, count: Infinity, materialIndex: 0 }];
+    const primitives = groups.map(group => {
+      const material = materials[group.materialIndex ?? 0] ?? materials[0];
+      const primitive: Json = {
+        attributes: material?.vertexColors ? colored : attributes,
+        mode: isPoints ? MODE_POINTS : MODE_TRIANGLES,
+      };
+      if (material) primitive.material = this.addMaterial(material);
+      if (!isPoints) {
+        const indices = groupIndices(geometry, group.start, group.count);
+        if (indices) primitive.indices = this.addIndices(indices, position.count);
+      }
+      return primitive;
+    });
+
+    this.json.meshes.push({ name: object.name || undefined, primitives });
+    return this.json.meshes.length - 1;
+  }
+
+  /** Float accessor; glTF's V axis points down where three.js's points up. */
+  private addAttribute(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, size: number, withBounds = false, flipV = false) {
+    const count = attribute.count;
+    const data = new Float32Array(count * size);
+    const getters = [attribute.getX, attribute.getY, attribute.getZ, attribute.getW];
+    for (let i = 0; i < count; i++) {
+      for (let c = 0; c < size; c++) {
+        data[i * size + c] = c < attribute.itemSize ? getters[c].call(attribute, i) : 1;
+      }
+      if (flipV) data[i * size + 1] = 1 - data[i * size + 1];
+    }
+
+    const accessor: Json = {
+      bufferView: this.addBufferView(data, ARRAY_BUFFER),
+      componentType: FLOAT,
+      count,
+      type: size === 2 ? 'VEC2' : size === 3 ? 'VEC3' : 'VEC4',
+    };
+    if (withBounds) {
+      const min = new Array(size).fill(Infinity);
+      const max = new Array(size).fill(-Infinity);
+      for (let i = 0; i < data.length; i++) {
+        const c = i % size;
+        if (data[i] < min[c]) min[c] = data[i];
+        if (data[i] > max[c]) max[c] = data[i];
+      }
+      accessor.min = min;
+      accessor.max = max;
+    }
+    this.json.accessors.push(accessor);
+    return this.json.accessors.length - 1;
+  }
+
+  private addIndices(indices: ArrayLike<number>, vertexCount: number) {
+    const data = vertexCount <= 0xffff ? Uint16Array.from(indices) : Uint32Array.from(indices);
+    this.json.accessors.push({
+      bufferView: this.addBufferView(data, ELEMENT_ARRAY_BUFFER),
+      componentType: data instanceof Uint16Array ? UNSIGNED_SHORT : UNSIGNED_INT,
+      count: data.length,
+      type: 'SCALAR',
+    });
+    return this.json.accessors.length - 1;
+  }
+
+  private addMaterial(material: THREE.Material): number {
+    const existing = this.materialIndex.get(material);
+    if (existing !== undefined) return existing;
+
+    const m = material as THREE.MeshStandardMaterial & THREE.MeshPhongMaterial;
+    const color = m.color ?? new THREE.Color(1, 1, 1);
+    const pbr: Json = {
+      baseColorFactor: [color.r, color.g, color.b, material.opacity],
+      // Phong and point materials have no PBR terms, export them as dielectric and fairly rough
+      metallicFactor: m.metalness ?? 0,
+      roughnessFactor: m.roughness ?? 0.8,
+    };
+    const texture = m.map ? this.addTexture(m.map) : null;
+    if (texture !== null) pbr.baseColorTexture = { index: texture };
+
+    const out: Json = { pbrMetallicRoughness: pbr };
+    if (material.name) out.name = material.name;
+    if (material.side === THREE.DoubleSide) out.doubleSided = true;
+    if (material.transparent && material.opacity < 1) out.alphaMode = 'BLEND';
+    if ((material as THREE.MeshBasicMaterial).isMeshBasicMaterial || (material as any).isPointsMaterial) {
+      out.extensions = { KHR_materials_unlit: {} };
+      this.useExtension('KHR_materials_unlit');
+    }
+
+    this.json.materials.push(out);
+    const index = this.json.materials.length - 1;
+    this.materialIndex.set(material, index);
+    return index;
+  }
+
+  private addTexture(texture: THREE.Texture): number | null {
+    const existing = this.textureIndex.get(texture);
+    if (existing !== undefined) return existing;
+
+    const source = texture.userData.source as { data: ArrayBuffer; mimeType: string | null } | undefined;
+    if (!source || !source.mimeType) {
+      this.textureIndex.set(texture, null);
+      return null;
+    }
+
+    this.json.images ??= [];
+    this.json.textures ??= [];
+    this.json.samplers ??= [{ wrapS: 10497, wrapT: 10497 }];
+    this.json.images.push({ bufferView: this.addBufferView(new Uint8Array(source.data)), mimeType: source.mimeType });
+    this.json.textures.push({ sampler: 0, source: this.json.images.length - 1 });
+    const index = this.json.textures.length - 1;
+    this.textureIndex.set(texture, index);
+    return index;
+  }
+
+  private addBufferView(data: ArrayBufferView, target?: number) {
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    const view: Json = { buffer: 0, byteOffset: this.byteLength, byteLength: bytes.byteLength };
+    if (target !== undefined) view.target = target;
+    this.chunks.push(bytes);
+    this.byteLength += bytes.byteLength;
+
+    // Accessors need 4-byte aligned offsets
+    const padding = (4 - (this.byteLength % 4)) % 4;
+    if (padding > 0) {
+      this.chunks.push(new Uint8Array(padding));
+      this.byteLength += padding;
+    }
+    this.json.bufferViews.push(view);
+    return this.json.bufferViews.length - 1;
+  }
+
+  private useExtension(name: string) {
+    this.json.extensionsUsed ??= [];
+    if (!this.json.extensionsUsed.includes(name)) this.json.extensionsUsed.push(name);
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    if (this.byteLength > 0) this.json.buffers = [{ byteLength: this.byteLength }];
+    for (const key of ['meshes', 'materials', 'accessors', 'bufferViews']) {
+      if (this.json[key].length === 0) delete this.json[key];
+    }
+
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(this.json));
+    const jsonLength = align4(jsonBytes.byteLength);
+    const binLength = this.byteLength;
+    const total = 12 + 8 + jsonLength + (binLength > 0 ? 8 + binLength : 0);
+
+    const out = new ArrayBuffer(total);
+    const dv = new DataView(out);
+    const bytes = new Uint8Array(out);
+    dv.setUint32(0, GLB_MAGIC, true);
+    dv.setUint32(4, 2, true);
+    dv.setUint32(8, total, true);
+
+    dv.setUint32(12, jsonLength, true);
+    dv.setUint32(16, CHUNK_JSON, true);
+    bytes.set(jsonBytes, 20);
+    // The JSON chunk is padded with spaces, the binary chunk with zeros
+    bytes.fill(0x20, 20 + jsonBytes.byteLength, 20 + jsonLength);
+
+    if (binLength > 0) {
+      let offset = 20 + jsonLength;
+      dv.setUint32(offset, binLength, true);
+      dv.setUint32(offset + 4, CHUNK_BIN, true);
+      offset += 8;
+      for (const chunk of this.chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+      }
+    }
+    return out;
+  }
+}
+
+/** Index list for a draw range, generated for non-indexed geometry. */
+function groupIndices(geometry: THREE.BufferGeometry, start: number, count: number): ArrayLike<number> | null {
+  const index = geometry.index;
+  const total = index ? index.count : geometry.getAttribute('position').count;
+  const end = Math.min(start + count, total);
+  if (!index && start === 0 && end === total) return null;
+
+  const out = new Uint32Array(Math.max(end - start, 0));
+  for (let i = start; i < end; i++) out[i - start] = index ? index.getX(i) : i;
+  return out;
+}
+
+function align4(n: number) {
+  return (n + 3) & ~3;
+}
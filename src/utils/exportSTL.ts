@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { collectTriangles } from './scene';
+
+const HEADER = 'Exported by dicom-stl-viewer';
+
+/**
+ * Serialises every mesh under `root` to STL. Each mesh's transform relative
+ * to `root` is baked into the vertices, so a loaded hierarchy comes out in
+ * the file's original coordinates. Indexed geometry is expanded and facet
+ * normals are recomputed from the triangle winding. `scale` converts the
+ * coordinates to another unit.
+ */
+export function exportSTL(root: THREE.Object3D, options: { binary: true; scale?: number }): ArrayBuffer;
+export function exportSTL(root: THREE.Object3D, options: { binary: false; name?: string; scale?: number }): string;
+export function exportSTL(root: THREE.Object3D, options: { binary: boolean; name?: string; scale?: number }): ArrayBuffer | string {
+  const triangles = collectTriangles(root);
+  if (options.scale !== undefined && options.scale !== 1) {
+    for (let i = 0; i < triangles.length; i++) triangles[i] *= options.scale;
+  }
+  return options.binary ? writeBinary(triangles) : writeASCII(triangles, options.name ?? 'model');
+}
+
+function faceNormal(t: Float32Array, o: number, out: THREE.Vector3) {
+  const ax = t[o + 3] - t[o], ay = t[o + 4] - t[o + 1], az = t[o + 5] - t[o + 2];
+  const bx = t[o + 6] - t[o], by = t[o + 7] - t[o + 1], bz = t[o + 8] - t[o + 2];
+  out.set(ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx);
+  const length = out.length();
+  return length > 0 ? out.divideScalar(length) : out.set(0, 0, 0);
+}
+
+function writeBinary(triangles: Float32Array): ArrayBuffer {
+  const count = triangles.length / 9;
+  const buffer = new ArrayBuffer(84 + 50 * count);
+  const dv = new DataView(buffer);
+  for (let i = 0; i < HEADER.length; i++) dv.setUint8(i, HEADER.charCodeAt(i));
+  dv.setUint32(80, count, true);
+
+  const n = new THREE.Vector3();
+  let offset = 84;
+  for (let t = 0; t < count; t++) {
+    const o = t * 9;
+    faceNormal(triangles, o, n);
+    dv.setFloat32(offset, n.x, true);
+    dv.setFloat32(offset + 4, n.y, true);
+    dv.setFloat32(offset + 8, n.z, true);
+    offset += 12;
+    for (let k = 0; k < 9; k++) {
+      dv.setFloat32(offset, triangles[o + k], true);
+      offset += 4;
+    }
+    offset += 2; // attribute byte count stays 0
+  }
+  return buffer;
+}
+
+function writeASCII(triangles: Float32Array, name: string): string {
+  const solid = name.replace(/\s+/g, '_');
+  const lines: string[] = [`solid ${solid}`];
+  const n = new THREE.Vector3();
+  for (let o = 0; o < triangles.length; o += 9) {
+    faceNormal(triangles, o, n);
+    lines.push(`  facet normal ${n.x.toExponential(6)} ${n.y.toExponential(6)} ${n.z.toExponential(6)}`);
+    lines.push('    outer loop');
+    for (let k = 0; k < 9; k += 3) {
+      lines.push(
+        `      vertex ${triangles[o + k].toExponential(6)} ${triangles[o + k + 1].toExponential(6)} ${triangles[o + k + 2].toExponential(6)}`
+      );
+    }
+    lines.push('    endloop');
+    lines.push('  endfacet');
+  }
+  lines.push(`endsolid ${solid}`, '');
+  return lines.join('\n');
+}
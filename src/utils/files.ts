@@ -0,0 +1,28 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { encode as encodeBase64 } from 'base64-arraybuffer';
+
+const EXPORT_DIR = 'exports/';
+
+/**
+ * Writes an exported file into the app's document directory and returns its
+ * URI. Binary data goes through base64 since expo-file-system only writes strings.
+ */
+export async function saveExport(fileName: string, data: ArrayBuffer | string): Promise<string> {
+  const dir = FileSystem.documentDirectory + EXPORT_DIR;
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+
+  const uri = dir + fileName;
+  if (typeof data === 'string') {
+    await FileSystem.writeAsStringAsync(uri, data, { encoding: 'utf8' });
+  } else {
+    await FileSystem.writeAsStringAsync(uri, encodeBase64(data), { encoding: 'base64' });
+  }
+  return uri;
+}
+
+/** Replaces the extension of a picked file name, e.g. scan.ply -> scan.stl. */
+export function replaceExtension(fileName: string, ext: string) {
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  return `${base.replace(/[^\w.-]+/g, '_')}.${ext}`;
+}
@@ -0,0 +1,27 @@
+// Bytes hashed between yields to the JS event loop
+const CHUNK_BYTES = 8 << 20;
+
+/**
+ * Identifies a file by its content: two independent 32-bit hashes (FNV-1a and
+ * a Murmur-style mix) plus the byte length, as 24 hex digits. Not
+ * cryptographic, but collisions between a user's own models are not a concern.
+ */
+export async function hashBuffer(buffer: ArrayBuffer): Promise<string> {
+  const bytes = new Uint8Array(buffer);
+  let fnv = 0x811c9dc5;
+  let mix = 0x9747b28c;
+
+  for (let start = 0; start < bytes.length; start += CHUNK_BYTES) {
+    const end = Math.min(start + CHUNK_BYTES, bytes.length);
+    for (let i = start; i < end; i++) {
+      const b = bytes[i];
+      fnv = Math.imul(fnv ^ b, 0x01000193);
+      mix = Math.imul(mix ^ b, 0x5bd1e995);
+      mix ^= mix >>> 15;
+    }
+    if (end < bytes.length) await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  const hex = (n: number) => (n >>> 0).toString(16).padStart(8, '0');
+  return hex(fnv) + hex(mix) + hex(bytes.length);
+}
@@ -0,0 +1,141 @@
+import * as THREE from 'three';
+import * as FileSystem from 'expo-file-system/legacy';
+import { LandmarkFileError } from './errors';
+
+const SIDECAR_DIR = 'annotations/';
+const SIDECAR_VERSION = 1;
+
+export const LANDMARK_COLORS = ['#e83e8c', '#fd7e14', '#20c997', '#6f42c1', '#17a2b8', '#ffc107'];
+
+/** Position and normal are in the loaded object's frame, i.e. the file's own units. */
+export type Landmark = {
+  id: string;
+  name: string;
+  color: string;
+  note: string;
+  position: THREE.Vector3;
+  normal: THREE.Vector3;
+};
+
+type SidecarFile = {
+  version: number;
+  fileName: string;
+  landmarks: { id: string; name: string; color: string; note: string; position: number[]; normal: number[] }[];
+};
+
+export function createLandmark(position: THREE.Vector3, normal: THREE.Vector3, existing: Landmark[]): Landmark {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: `Landmark ${existing.length + 1}`,
+    color: LANDMARK_COLORS[existing.length % LANDMARK_COLORS.length],
+    note: '',
+    position,
+    normal,
+  };
+}
+
+/**
+ * Pins standing on the surface along its normal: a stem and a round head,
+ * drawn over the model so they stay visible from behind. `size` is the pin
+ * length in the landmarks' units; the selected pin is drawn larger.
+ */
+export function buildLandmarkOverlay(landmarks: Landmark[], selectedId: string | null, size: number): THREE.Group {
+  const group = new THREE.Group();
+  group.userData.helper = true;
+
+  const head = new THREE.SphereGeometry(size * 0.25, 12, 8);
+  for (const landmark of landmarks) {
+    const scale = landmark.id === selectedId ? 1.5 : 1;
+    const tip = landmark.position.clone().addScaledVector(landmark.normal, size * scale);
+    const material = new THREE.MeshBasicMaterial({ color: landmark.color, depthTest: false });
+
+    const pin = new THREE.Mesh(head, material);
+    pin.position.copy(tip);
+    pin.scale.setScalar(scale);
+    pin.renderOrder = 11;
+    pin.userData.helper = true;
+    group.add(pin);
+
+    const stem = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints([landmark.position, tip]),
+      new THREE.LineBasicMaterial({ color: landmark.color, depthTest: false })
+    );
+    stem.renderOrder = 10;
+    stem.userData.helper = true;
+    group.add(stem);
+  }
+  return group;
+}
+
+/** Where each pin head lands in view pixels; `visible` is false behind the camera. */
+export function projectLandmarks(
+  landmarks: Landmark[],
+  object: THREE.Object3D,
+  camera: THREE.Camera,
+  size: number,
+  width: number,
+  height: number
+): { id: string; x: number; y: number; visible: boolean }[] {
+  const v = new THREE.Vector3();
+  return landmarks.map(landmark => {
+    v.copy(landmark.position).addScaledVector(landmark.normal, size);
+    object.localToWorld(v).project(camera);
+    return {
+      id: landmark.id,
+      x: Math.round((v.x + 1) * 0.5 * width),
+      y: Math.round((1 - v.y) * 0.5 * height),
+      visible: v.z < 1,
+    };
+  });
+}
+
+function sidecarUri(contentHash: string) {
+  return `${FileSystem.documentDirectory}${SIDECAR_DIR}${contentHash}.json`;
+}
+
+/**
+ * Landmarks saved for a file with this content, or none. A sidecar that is
+ * corrupt or from another version is moved to `<hash>.json.bak` and reported
+ * with a LandmarkFileError rather than left to be overwritten by the next save.
+ */
+export async function loadLandmarks(contentHash: string): Promise<Landmark[]> {
+  const uri = sidecarUri(contentHash);
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) return [];
+
+  let problem: string;
+  try {
+    const file: SidecarFile = JSON.parse(await FileSystem.readAsStringAsync(uri));
+    if (file.version === SIDECAR_VERSION) {
+      return file.landmarks.map(l => ({
+        ...l,
+        position: new THREE.Vector3().fromArray(l.position),
+        normal: new THREE.Vector3().fromArray(l.normal),
+      }));
+    }
+    problem = `The annotation file is version ${file.version}, this app reads version ${SIDECAR_VERSION}.`;
+  } catch {
+    problem = 'The annotation file is damaged.';
+  }
+
+  const backupUri = `${uri}.bak`;
+  await FileSystem.moveAsync({ from: uri, to: backupUri });
+  throw new LandmarkFileError(backupUri, `${problem} It was kept as ${contentHash}.json.bak and new landmarks go into a fresh file.`);
+}
+
+/** Writes the sidecar, or deletes it once the last landmark is gone. */
+export async function saveLandmarks(contentHash: string, fileName: string, landmarks: Landmark[]) {
+  const uri = sidecarUri(contentHash);
+  if (landmarks.length === 0) {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    return;
+  }
+
+  const file: SidecarFile = {
+    version: SIDECAR_VERSION,
+    fileName,
+    landmarks: landmarks.map(l => ({ ...l, position: l.position.toArray(), normal: l.normal.toArray() })),
+  };
+  await FileSystem.makeDirectoryAsync(FileSystem.documentDirectory + SIDECAR_DIR, { intermediates: true });
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(file, null, 2));
+}
@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+import type { ModelStats } from '../loaders';
+import { forEachMaterial } from './scene';
+import { LengthUnit, unitScale } from './units';
+
+// The first layer keeps the file's look, later ones get these so overlays tell apart
+export const LAYER_COLORS = ['#dc3545', '#007bff', '#28a745', '#fd7e14', '#6f42c1'];
+
+/**
+ * One loaded model in the shared scene. All layers live in the same frame,
+ * the file coordinates of the first model, moved by their own transform and
+ * scaled from their own unit into the first model's.
+ */
+export type Layer = {
+  id: string;
+  name: string;
+  stats: ModelStats;
+  /** Unit of the file's coordinates, declared or guessed from its size. */
+  unit: LengthUnit;
+  /** Replaces the file's colours while set. */
+  color: string | null;
+  opacity: number;
+  visible: boolean;
+  /** Translation in model units. */
+  offset: [number, number, number];
+  /** Rotation in degrees, about `pivot`. */
+  rotation: [number, number, number];
+  /** Centre of the model's bounding box as loaded, in the layer's own unit. */
+  pivot: [number, number, number];
+};
+
+export function createLayer(name: string, stats: ModelStats, unit: LengthUnit, pivot: THREE.Vector3, index: number): Layer {
+  return {
+    id: `${Date.now().toString(36)}-${index}`,
+    name,
+    stats,
+    unit,
+    color: index === 0 ? null : LAYER_COLORS[(index - 1) % LAYER_COLORS.length],
+    opacity: 1,
+    visible: true,
+    offset: [0, 0, 0],
+    rotation: [0, 0, 0],
+    pivot: pivot.toArray() as [number, number, number],
+  };
+}
+
+/** Applies a layer's settings to the group holding its model, `frameUnit` being the first layer's unit. */
+export function applyLayer(group: THREE.Object3D, layer: Layer, frameUnit: LengthUnit) {
+  group.visible = layer.visible;
+
+  const scale = unitScale(layer.unit, frameUnit);
+  group.scale.setScalar(scale);
+  const [rx, ry, rz] = layer.rotation.map(THREE.MathUtils.degToRad);
+  group.rotation.set(rx, ry, rz);
+  // Rotate about the scaled pivot: p' = R (s p - s pivot) + s pivot + offset
+  const pivot = new THREE.Vector3().fromArray(layer.pivot).multiplyScalar(scale);
+  group.position
+    .copy(pivot)
+    .sub(pivot.clone().applyEuler(group.rotation))
+    .add(new THREE.Vector3().fromArray(layer.offset));
+
+  forEachMaterial(group, material => {
+    const m = material as THREE.MeshStandardMaterial;
+    applyOpacity(m, layer.opacity);
+
+    // The deviation heatmap brings its own colours
+    if (!m.color || m.userData.deviation) return;
+    if (layer.color !== null) {
+      if (m.userData.layerOwnColor === undefined) {
+        m.userData.layerOwnColor = { color: m.color.getHex(), vertexColors: m.vertexColors };
+      }
+      m.color.set(layer.color);
+      if (m.vertexColors) {
+        m.vertexColors = false;
+        m.needsUpdate = true;
+      }
+    } else if (m.userData.layerOwnColor !== undefined) {
+      m.color.setHex(m.userData.layerOwnColor.color);
+      m.vertexColors = m.userData.layerOwnColor.vertexColors;
+      m.needsUpdate = true;
+      delete m.userData.layerOwnColor;
+    }
+  });
+}
+
+/**
+ * Fades a material to the layer's opacity. Its own transparency is kept aside
+ * and put back at full opacity, so PLY files with per-vertex alpha stay translucent.
+ */
+function applyOpacity(m: THREE.Material, opacity: number) {
+  if (opacity < 1) {
+    if (m.userData.layerOwnOpacity === undefined) {
+      m.userData.layerOwnOpacity = { opacity: m.opacity, transparent: m.transparent, depthWrite: m.depthWrite };
+    }
+    if (!m.transparent) m.needsUpdate = true;
+    // Fades compose with the material's own, as for translucent PLY or the X-ray mode
+    m.opacity = m.userData.layerOwnOpacity.opacity * opacity;
+    m.transparent = true;
+    // Back layers must stay visible through translucent front ones
+    m.depthWrite = false;
+  } else if (m.userData.layerOwnOpacity !== undefined) {
+    const own = m.userData.layerOwnOpacity;
+    if (m.transparent !== own.transparent) m.needsUpdate = true;
+    m.opacity = own.opacity;
+    m.transparent = own.transparent;
+    m.depthWrite = own.depthWrite;
+    delete m.userData.layerOwnOpacity;
+  }
+}
@@ -0,0 +1,115 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { ModelStats } from '../loaders';
+
+const LIBRARY_DIR = 'library/';
+const INDEX_FILE = 'index.json';
+
+export type LibraryEntry = {
+  /** Content hash, shared with the landmark sidecar. */
+  id: string;
+  fileName: string;
+  /** The library's own copy of the model. */
+  uri: string;
+  byteSize: number;
+  format: string;
+  triangleCount?: number;
+  vertexCount?: number;
+  pointCount?: number;
+  lastOpened: number;
+  favourite: boolean;
+  thumbnailUri?: string;
+};
+
+let entries: LibraryEntry[] | null = null;
+// Index writes are chained so concurrent updates cannot interleave
+let writing: Promise<void> = Promise.resolve();
+
+const libraryDir = () => FileSystem.documentDirectory + LIBRARY_DIR;
+const entryDir = (id: string) => `${libraryDir()}${id}/`;
+
+export async function loadLibrary(): Promise<LibraryEntry[]> {
+  if (entries) return entries;
+  try {
+    const uri = libraryDir() + INDEX_FILE;
+    const info = await FileSystem.getInfoAsync(uri);
+    entries = info.exists ? JSON.parse(await FileSystem.readAsStringAsync(uri)) : [];
+  } catch {
+    // An unreadable index starts an empty library rather than blocking the viewer
+    entries = [];
+  }
+  return entries!;
+}
+
+async function update(fn: (list: LibraryEntry[]) => LibraryEntry[]) {
+  const list = fn(await loadLibrary());
+  entries = list;
+  writing = writing.catch(() => {}).then(async () => {
+    await FileSystem.makeDirectoryAsync(libraryDir(), { intermediates: true });
+    await FileSystem.writeAsStringAsync(libraryDir() + INDEX_FILE, JSON.stringify(list));
+  });
+  await writing;
+  return list;
+}
+
+/**
+ * Records an opened model, copying it into the library the first time so it
+ * can be reopened after the picker's cache copy is gone.
+ */
+export async function addToLibrary(
+  id: string,
+  sourceUri: string,
+  fileName: string,
+  byteSize: number,
+  stats: ModelStats
+): Promise<LibraryEntry> {
+  const existing = (await loadLibrary()).find(e => e.id === id);
+  let uri = existing?.uri;
+  if (!uri || !(await FileSystem.getInfoAsync(uri)).exists) {
+    await FileSystem.makeDirectoryAsync(entryDir(id), { intermediates: true });
+    uri = entryDir(id) + fileName.replace(/[^\w.-]+/g, '_');
+    await FileSystem.copyAsync({ from: sourceUri, to: uri });
+  }
+
+  const entry: LibraryEntry = {
+    ...existing,
+    id,
+    fileName,
+    uri,
+    byteSize,
+    format: stats.format,
+    triangleCount: stats.triangleCount,
+    vertexCount: stats.vertexCount,
+    pointCount: stats.pointCount,
+    lastOpened: Date.now(),
+    favourite: existing?.favourite ?? false,
+  };
+  await update(list => [entry, ...list.filter(e => e.id !== id)]);
+  return entry;
+}
+
+/** Keeps a snapshot of the viewer as the entry's thumbnail, replacing the previous one. */
+export async function setThumbnail(id: string, imageUri: string) {
+  const entry = (await loadLibrary()).find(e => e.id === id);
+  if (!entry) return;
+  // A new name each time, images are cached by URI
+  const uri = `${entryDir(id)}thumbnail-${Date.now()}.png`;
+  await FileSystem.copyAsync({ from: imageUri, to: uri });
+  if (entry.thumbnailUri) await FileSystem.deleteAsync(entry.thumbnailUri, { idempotent: true });
+  await update(list => list.map(e => (e.id === id ? { ...e, thumbnailUri: uri } : e)));
+}
+
+export function setFavourite(id: string, favourite: boolean) {
+  return update(list => list.map(e => (e.id === id ? { ...e, favourite } : e)));
+}
+
+/** Deletes the library copy and thumbnail; landmarks saved for the content are kept. */
+export async function removeFromLibrary(id: string) {
+  await FileSystem.deleteAsync(entryDir(id), { idempotent: true });
+  return update(list => list.filter(e => e.id !== id));
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
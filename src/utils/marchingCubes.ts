@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+import { edgeTable as edgeTableRaw, triTable as triTableRaw } from 'three/examples/jsm/objects/MarchingCubes.js';
+
+// The typings declare these as arrays of arrays, the module exports flat tables
+const edgeTable = edgeTableRaw as unknown as Int32Array;
+const triTable = triTableRaw as unknown as Int32Array;
+
+export type Volume = {
+  data: Float32Array | Int16Array;
+  dims: [number, number, number]; // voxel count along x, y, z
+  spacing: [number, number, number]; // mm between voxel centres along x, y, z
+};
+
+// Corner offsets in Paul Bourke's ordering, which the three.js tables use
+const CORNERS = [
+  [0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0],
+  [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1],
+];
+
+// For each of the 12 cube edges: start corner, end corner, axis (0=x, 1=y, 2=z)
+const EDGES = [
+  [0, 1, 0], [1, 2, 1], [3, 2, 0], [0, 3, 1],
+  [4, 5, 0], [5, 6, 1], [7, 6, 0], [4, 7, 1],
+  [0, 4, 2], [1, 5, 2], [2, 6, 2], [3, 7, 2],
+];
+
+// Slices processed between yields to the JS event loop
+const SLABS_PER_CHUNK = 4;
+
+/**
+ * Extracts the isosurface of a scalar volume at `isoValue` as an indexed
+ * BufferGeometry in millimetres. Vertices on shared cube edges are reused so
+ * the result is a connected mesh, and triangles are wound so normals face
+ * out of the region above the threshold.
+ */
+export async function marchingCubes(
+  volume: Volume,
+  isoValue: number,
+  onProgress?: (fraction: number) => void
+): Promise<{ geometry: THREE.BufferGeometry; triangleCount: number }> {
+  const { data, dims, spacing } = volume;
+  const [nx, ny, nz] = dims;
+  const plane = nx * ny;
+
+  const positions = new GrowableArray(Float32Array, 3 * 65536);
+  const indices = new GrowableArray(Uint32Array, 3 * 65536);
+
+  // Vertex index per edge for the current cube layer, -1 when not yet created.
+  // xyLow/xyHigh hold x- and y-edges of planes z and z+1, zEdges the edges in between.
+  let xyLow = new Int32Array(plane * 2).fill(-1);
+  let xyHigh = new Int32Array(plane * 2);
+  const zEdges = new Int32Array(plane);
+
+  const cornerValues = new Float64Array(8);
+  const edgeVerts = new Int32Array(12);
+
+  const edgeVertex = (x: number, y: number, z: number, edge: number): number => {
+    const [c0, c1, axis] = EDGES[edge];
+    const o0 = CORNERS[c0];
+    const ex = x + o0[0];
+    const ey = y + o0[1];
+    const ez = z + o0[2];
+    const cell = ey * nx + ex;
+
+    let cache: Int32Array;
+    let slot: number;
+    if (axis === 2) {
+      cache = zEdges;
+      slot = cell;
+    } else {
+      cache = ez === z ? xyLow : xyHigh;
+      slot = cell * 2 + axis;
+    }
+    const cached = cache[slot];
+    if (cached !== -1) return cached;
+
+    const v0 = cornerValues[c0];
+    const v1 = cornerValues[c1];
+    const t = v1 === v0 ? 0.5 : (isoValue - v0) / (v1 - v0);
+    const index = positions.length / 3;
+    positions.push(
+      (ex + (axis === 0 ? t : 0)) * spacing[0],
+      (ey + (axis === 1 ? t : 0)) * spacing[1],
+      (ez + (axis === 2 ? t : 0)) * spacing[2]
+    );
+    cache[slot] = index;
+    return index;
+  };
+
+  for (let z = 0; z < nz - 1; z++) {
+    xyHigh.fill(-1);
+    zEdges.fill(-1);
+
+    for (let y = 0; y < ny - 1; y++) {
+      for (let x = 0; x < nx - 1; x++) {
+        let cubeIndex = 0;
+        for (let c = 0; c < 8; c++) {
+          const o = CORNERS[c];
+          const v = data[(z + o[2]) * plane + (y + o[1]) * nx + (x + o[0])];
+          cornerValues[c] = v;
+          if (v < isoValue) cubeIndex |= 1 << c;
+        }
+
+        const bits = edgeTable[cubeIndex];
+        if (bits === 0) continue;
+
+        for (let e = 0; e < 12; e++) {
+          if (bits & (1 << e)) edgeVerts[e] = edgeVertex(x, y, z, e);
+        }
+
+        const row = cubeIndex * 16;
+        for (let i = 0; triTable[row + i] !== -1; i += 3) {
+          indices.push(
+            edgeVerts[triTable[row + i]],
+            edgeVerts[triTable[row + i + 1]],
+            edgeVerts[triTable[row + i + 2]]
+          );
+        }
+      }
+    }
+
+    const swap = xyLow;
+    xyLow = xyHigh;
+    xyHigh = swap;
+
+    if (z % SLABS_PER_CHUNK === SLABS_PER_CHUNK - 1) {
+      onProgress?.((z + 1) / (nz - 1));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  onProgress?.(1);
+
+  const position = positions.toArray();
+  const index = indices.toArray();
+
+  // The tables mark corners below the threshold as inside; flip the winding
+  // when that leaves the surface enclosing negative volume.
+  if (signedVolume(position, index) < 0) {
+    for (let i = 0; i < index.length; i += 3) {
+      const t = index[i + 1];
+      index[i + 1] = index[i + 2];
+      index[i + 2] = t;
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(position, 3));
+  geometry.setIndex(new THREE.BufferAttribute(index, 1));
+  geometry.computeVertexNormals();
+
+  return { geometry, triangleCount: index.length / 3 };
+}
+
+function signedVolume(position: Float32Array, index: Uint32Array) {
+  let volume = 0;
+  for (let i = 0; i < index.length; i += 3) {
+    const a = index[i] * 3;
+    const b = index[i + 1] * 3;
+    const c = index[i + 2] * 3;
+    volume +=
+      position[a] * (position[b + 1] * position[c + 2] - position[b + 2] * position[c + 1]) -
+      position[a + 1] * (position[b] * position[c + 2] - position[b + 2] * position[c]) +
+      position[a + 2] * (position[b] * position[c + 1] - position[b + 1] * position[c]);
+  }
+  return volume / 6;
+}
+
+type TypedArrayConstructor<T> = { new (length: number): T };
+
+class GrowableArray<T extends Float32Array | Uint32Array> {
+  private data: T;
+  length = 0;
+
+  constructor(private readonly ctor: TypedArrayConstructor<T>, capacity: number) {
+    this.data = new ctor(capacity);
+  }
+
+  push(a: number, b: number, c: number) {
+    if (this.length + 3 > this.data.length) {
+      const next = new this.ctor(this.data.length * 2);
+      next.set(this.data);
+      this.data = next;
+    }
+    this.data[this.length++] = a;
+    this.data[this.length++] = b;
+    this.data[this.length++] = c;
+  }
+
+  toArray(): T {
+    return this.data.slice(0, this.length) as T;
+  }
+}
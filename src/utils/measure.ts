@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import { Units, formatLength } from './units';
+
+export type MeasureTool = 'distance' | 'angle';
+
+/** Points are in the measured object's local frame, i.e. the file's own units. */
+export type Measurement = {
+  tool: MeasureTool;
+  points: THREE.Vector3[];
+  value: number; // length for distances, degrees for angles
+};
+
+export const POINTS_PER_TOOL: Record<MeasureTool, number> = { distance: 2, angle: 3 };
+
+export const MEASURE_COLOR = '#ffc107';
+const PENDING_COLOR = '#0dcaf0';
+
+export function createMeasurement(tool: MeasureTool, points: THREE.Vector3[]): Measurement {
+  const value = tool === 'distance'
+    ? points[0].distanceTo(points[1])
+    : // The vertex of the angle is the middle point
+      THREE.MathUtils.radToDeg(points[0].clone().sub(points[1]).angleTo(points[2].clone().sub(points[1])));
+  return { tool, points, value };
+}
+
+export function formatMeasurement(measurement: Measurement, units: Units) {
+  return measurement.tool === 'distance'
+    ? formatLength(measurement.value, units)
+    : `${measurement.value.toFixed(1)}°`;
+}
+
+/**
+ * Casts a ray from a tap on the viewport and returns the first surface hit in
+ * `target`'s local frame, so the point moves with the model. `x`/`y` are in
+ * view pixels from the top-left corner. Hits cut away by any of the world-space
+ * `clippingPlanes` are passed through, as they are not drawn.
+ */
+export function pickPoint(
+  camera: THREE.Camera,
+  target: THREE.Object3D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  clippingPlanes: THREE.Plane[] = []
+): THREE.Vector3 | null {
+  return pickSurface(camera, target, x, y, width, height, clippingPlanes)?.point ?? null;
+}
+
+/** Like `pickPoint`, plus the unit surface normal there, facing the viewer. */
+export function pickSurface(
+  camera: THREE.Camera,
+  target: THREE.Object3D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  clippingPlanes: THREE.Plane[] = []
+): { point: THREE.Vector3; normal: THREE.Vector3 } | null {
+  const raycaster = new THREE.Raycaster();
+  raycaster.setFromCamera(new THREE.Vector2((x / width) * 2 - 1, -(y / height) * 2 + 1), camera);
+  target.updateWorldMatrix(true, true);
+
+  const hit = raycaster
+    .intersectObject(target, true)
+    .find(intersection =>
+      (intersection.object as THREE.Mesh).isMesh &&
+      !isHelper(intersection.object) &&
+      clippingPlanes.every(plane => plane.distanceToPoint(intersection.point) >= 0)
+    );
+  if (!hit) return null;
+
+  const normal = hit.face ? hit.face.normal.clone().transformDirection(hit.object.matrixWorld) : raycaster.ray.direction.clone().negate();
+  // Double-sided meshes can be hit from behind
+  if (normal.dot(raycaster.ray.direction) > 0) normal.negate();
+  const toLocal = target.matrixWorld.clone().invert();
+  return { point: hit.point.clone().applyMatrix4(toLocal), normal: normal.transformDirection(toLocal) };
+}
+
+function isHelper(object: THREE.Object3D | null) {
+  for (let o = object; o; o = o.parent) {
+    if (o.userData.helper) return true;
+  }
+  return false;
+}
+
+/**
+ * Markers and lines for the finished measurements plus the points placed so
+ * far for the next one. `markerRadius` is in the same units as the points.
+ */
+export function buildMeasureOverlay(
+  measurements: Measurement[],
+  pending: THREE.Vector3[],
+  markerRadius: number
+): THREE.Group {
+  const group = new THREE.Group();
+  group.userData.helper = true;
+
+  const markerGeometry = new THREE.SphereGeometry(markerRadius, 12, 8);
+  const addPolyline = (points: THREE.Vector3[], color: string) => {
+    points.forEach(point => {
+      const marker = new THREE.Mesh(markerGeometry, new THREE.MeshBasicMaterial({ color, depthTest: false }));
+      marker.position.copy(point);
+      marker.renderOrder = 11;
+      marker.userData.helper = true;
+      group.add(marker);
+    });
+    if (points.length < 2) return;
+    const line = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints(points),
+      new THREE.LineBasicMaterial({ color, depthTest: false })
+    );
+    line.renderOrder = 10;
+    line.userData.helper = true;
+    group.add(line);
+  };
+
+  measurements.forEach(measurement => addPolyline(measurement.points, MEASURE_COLOR));
+  addPolyline(pending, PENDING_COLOR);
+  return group;
+}
@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { weldVertices, defaultWeldTolerance, edgeKey, connectedComponents } from './meshTopology';
+
+export type MeshReport = {
+  triangleCount: number;
+  vertexCount: number; // after welding coincident corners
+  boundaryEdges: number; // used by one triangle: the mesh has a hole there
+  nonManifoldEdges: number; // shared by more than two triangles
+  inconsistentEdges: number; // two neighbours walk the edge in the same direction
+  degenerateTriangles: number; // zero area or repeated vertex
+  shellCount: number;
+  isClosed: boolean;
+  surfaceArea: number;
+  /** Enclosed volume, only meaningful for a closed, consistently oriented mesh. */
+  volume: number | null;
+  /** Closed mesh whose triangles face inwards. */
+  insideOut: boolean;
+  /** Line segment endpoints (6 floats per edge) for highlighting each kind of problem. */
+  problemEdges: {
+    boundary: Float32Array;
+    nonManifold: Float32Array;
+    inconsistent: Float32Array;
+  };
+};
+
+/**
+ * Checks whether a triangle soup is printable: welds coincident corners,
+ * then classifies every edge by how many triangles use it and in which
+ * direction. `corners` holds 9 floats per triangle, see collectTriangles.
+ */
+export function analyzeMesh(corners: Float32Array): MeshReport {
+  const triangleCount = corners.length / 9;
+  const { positions, triangles } = weldVertices(corners, defaultWeldTolerance(corners));
+  const vertexCount = positions.length / 3;
+
+  // Directed edge counts: forward and backward traversals are stored separately
+  const directed = new Map<number, number>();
+  let degenerateTriangles = 0;
+  let surfaceArea = 0;
+  let signedVolume = 0;
+  const areaEpsilon = Math.pow(defaultWeldTolerance(corners), 2);
+
+  for (let t = 0; t < triangleCount; t++) {
+    const a = triangles[t * 3];
+    const b = triangles[t * 3 + 1];
+    const c = triangles[t * 3 + 2];
+
+    const ax = positions[a * 3], ay = positions[a * 3 + 1], az = positions[a * 3 + 2];
+    const bx = positions[b * 3], by = positions[b * 3 + 1], bz = positions[b * 3 + 2];
+    const cx = positions[c * 3], cy = positions[c * 3 + 1], cz = positions[c * 3 + 2];
+    const ux = bx - ax, uy = by - ay, uz = bz - az;
+    const vx = cx - ax, vy = cy - ay, vz = cz - az;
+    const nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+    const area = Math.sqrt(nx * nx + ny * ny + nz * nz) / 2;
+
+    if (a === b || b === c || a === c || area <= areaEpsilon) {
+      degenerateTriangles++;
+      continue;
+    }
+    surfaceArea += area;
+    signedVolume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+
+    for (const [p, q] of [[a, b], [b, c], [c, a]]) {
+      const key = edgeKey(p, q, vertexCount);
+      directed.set(key, (directed.get(key) ?? 0) + 1);
+    }
+  }
+
+  const boundary: number[] = [];
+  const nonManifold: number[] = [];
+  const inconsistent: number[] = [];
+  const pushEdge = (list: number[], p: number, q: number) => {
+    list.push(
+      positions[p * 3], positions[p * 3 + 1], positions[p * 3 + 2],
+      positions[q * 3], positions[q * 3 + 1], positions[q * 3 + 2]
+    );
+  };
+
+  directed.forEach((forward, key) => {
+    const p = Math.floor(key / vertexCount);
+    const q = key - p * vertexCount;
+    const backward = directed.get(edgeKey(q, p, vertexCount)) ?? 0;
+    // Visit each undirected edge once, from its smaller endpoint or its only direction
+    if (backward > 0 && p > q) return;
+
+    const total = forward + backward;
+    if (total === 1) pushEdge(boundary, p, q);
+    else if (total > 2) pushEdge(nonManifold, p, q);
+    else if (forward === 2 || backward === 2) pushEdge(inconsistent, p, q);
+  });
+
+  const { count: shellCount } = connectedComponents(triangles, vertexCount);
+  const isClosed = boundary.length === 0 && nonManifold.length === 0;
+
+  return {
+    triangleCount,
+    vertexCount,
+    boundaryEdges: boundary.length / 6,
+    nonManifoldEdges: nonManifold.length / 6,
+    inconsistentEdges: inconsistent.length / 6,
+    degenerateTriangles,
+    shellCount,
+    isClosed,
+    surfaceArea,
+    volume: isClosed && inconsistent.length === 0 ? Math.abs(signedVolume) : null,
+    insideOut: isClosed && inconsistent.length === 0 && signedVolume < 0,
+    problemEdges: {
+      boundary: new Float32Array(boundary),
+      nonManifold: new Float32Array(nonManifold),
+      inconsistent: new Float32Array(inconsistent),
+    },
+  };
+}
+
+export const PROBLEM_COLORS = {
+  boundary: '#dc3545',
+  nonManifold: '#d63384',
+  inconsistent: '#fd7e14',
+};
+
+/**
+ * Line overlay for the problem edges of a report. Drawn without depth test
+ * so edges stay visible behind the surface; flagged as a helper so exports
+ * and analysis skip it.
+ */
+export function buildProblemOverlay(report: MeshReport): THREE.Group {
+  const group = new THREE.Group();
+  group.userData.helper = true;
+
+  (Object.keys(PROBLEM_COLORS) as (keyof typeof PROBLEM_COLORS)[]).forEach(kind => {
+    const segments = report.problemEdges[kind];
+    if (segments.length === 0) return;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(segments, 3));
+    const lines = new THREE.LineSegments(
+      geometry,
+      new THREE.LineBasicMaterial({ color: PROBLEM_COLORS[kind], depthTest: false })
+    );
+    lines.renderOrder = 10;
+    lines.userData.helper = true;
+    group.add(lines);
+  });
+  return group;
+}
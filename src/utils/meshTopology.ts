@@ -0,0 +1,125 @@
+/**
+ * Merges triangle corners closer than `tolerance` into shared vertices.
+ * `corners` holds 9 floats per triangle, as returned by collectTriangles.
+ * Uses a hashed uniform grid, so each corner only checks its 27 neighbour cells.
+ */
+export function weldVertices(corners: Float32Array, tolerance: number): {
+  positions: Float32Array;
+  triangles: Uint32Array;
+  /** For each welded vertex, the first corner (vertex index into `corners`) that created it. */
+  sources: Uint32Array;
+} {
+  const cornerCount = corners.length / 3;
+  const cell = tolerance > 0 ? tolerance : 1e-9;
+  const tol2 = tolerance * tolerance;
+  const grid = new Map<number, number[]>();
+  const positions = new Float32Array(corners.length);
+  const sources = new Uint32Array(cornerCount);
+  const triangles = new Uint32Array(cornerCount);
+  let count = 0;
+
+  for (let c = 0; c < cornerCount; c++) {
+    const x = corners[c * 3];
+    const y = corners[c * 3 + 1];
+    const z = corners[c * 3 + 2];
+    const ix = Math.floor(x / cell);
+    const iy = Math.floor(y / cell);
+    const iz = Math.floor(z / cell);
+
+    let found = -1;
+    search: for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const bucket = grid.get(hashCell(ix + dx, iy + dy, iz + dz));
+          if (!bucket) continue;
+          for (const v of bucket) {
+            const ex = positions[v * 3] - x;
+            const ey = positions[v * 3 + 1] - y;
+            const ez = positions[v * 3 + 2] - z;
+            if (ex * ex + ey * ey + ez * ez <= tol2) {
+              found = v;
+              break search;
+            }
+          }
+        }
+      }
+    }
+
+    if (found < 0) {
+      found = count++;
+      positions[found * 3] = x;
+      positions[found * 3 + 1] = y;
+      positions[found * 3 + 2] = z;
+      sources[found] = c;
+      const key = hashCell(ix, iy, iz);
+      const bucket = grid.get(key);
+      if (bucket) bucket.push(found);
+      else grid.set(key, [found]);
+    }
+    triangles[c] = found;
+  }
+
+  return {
+    positions: positions.slice(0, count * 3),
+    triangles,
+    sources: sources.slice(0, count),
+  };
+}
+
+/** A tolerance that merges float noise but not real features: a millionth of the model size. */
+export function defaultWeldTolerance(corners: Float32Array) {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < corners.length; i++) {
+    if (corners[i] < min) min = corners[i];
+    if (corners[i] > max) max = corners[i];
+  }
+  return Number.isFinite(max - min) && max > min ? (max - min) * 1e-6 : 1e-6;
+}
+
+/** Directed edge usage: key(a, b) counts triangles that walk from a to b. */
+export function edgeKey(a: number, b: number, vertexCount: number) {
+  return a * vertexCount + b;
+}
+
+/** Union-find over vertex indices, used to count and label connected shells. */
+export function connectedComponents(triangles: Uint32Array, vertexCount: number): {
+  count: number;
+  /** Component label per triangle, 0..count-1. */
+  labels: Uint32Array;
+} {
+  const parent = new Int32Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) parent[i] = i;
+  const find = (v: number) => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]];
+      v = parent[v];
+    }
+    return v;
+  };
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = find(triangles[t]);
+    const b = find(triangles[t + 1]);
+    const c = find(triangles[t + 2]);
+    parent[b] = a;
+    parent[find(c)] = a;
+  }
+
+  const rootLabel = new Map<number, number>();
+  const labels = new Uint32Array(triangles.length / 3);
+  for (let t = 0; t < labels.length; t++) {
+    const root = find(triangles[t * 3]);
+    let label = rootLabel.get(root);
+    if (label === undefined) {
+      label = rootLabel.size;
+      rootLabel.set(root, label);
+    }
+    labels[t] = label;
+  }
+  return { count: rootLabel.size, labels };
+}
+
+function hashCell(x: number, y: number, z: number) {
+  // Large primes spread neighbouring cells; collisions only cost extra distance checks
+  return ((x * 73856093) ^ (y * 19349663) ^ (z * 83492791)) | 0;
+}
@@ -0,0 +1,358 @@
+import * as THREE from 'three';
+import { PanResponder, PanResponderInstance, GestureResponderEvent } from 'react-native';
+import { fitCameraToObject, fitDistance } from './scene';
+
+// Movement under this many pixels still counts as a tap
+const TAP_SLOP = 6;
+const TAP_MAX_MS = 250;
+const DOUBLE_TAP_MS = 300;
+
+export type Projection = 'perspective' | 'orthographic';
+
+export type ViewPreset = 'front' | 'back' | 'left' | 'right' | 'top' | 'bottom' | 'iso';
+
+// Direction from the model to the camera, in the model's own frame. Top and
+// bottom are nudged off the pole so lookAt keeps +Y as screen up.
+const VIEW_DIRECTIONS: Record<ViewPreset, THREE.Vector3> = {
+  front: new THREE.Vector3(0, 0, 1),
+  back: new THREE.Vector3(0, 0, -1),
+  left: new THREE.Vector3(-1, 0, 0),
+  right: new THREE.Vector3(1, 0, 0),
+  top: new THREE.Vector3(0, 1, 1e-3).normalize(),
+  bottom: new THREE.Vector3(0, -1, 1e-3).normalize(),
+  iso: new THREE.Vector3(1, 1, 1).normalize(),
+};
+
+/**
+ * Orbit camera around a target point. Gestures add to pending rotation and
+ * pan deltas, and `update()` (called once per frame) applies a fraction of
+ * them, which gives the motion its damping and a short glide after release.
+ *
+ * The controls keep a perspective and an orthographic camera in the same
+ * pose; the orthographic frustum matches what the perspective camera sees at
+ * the target, so switching projection keeps the model the same size.
+ */
+export class OrbitControls {
+  readonly target = new THREE.Vector3();
+  readonly orthographic = new THREE.OrthographicCamera();
+  projection: Projection = 'perspective';
+  dampingFactor = 0.2;
+  minDistance = 0.1;
+  maxDistance = 10000;
+
+  private width = 1;
+  private height = 1;
+  private rotateDelta = new THREE.Vector2(); // azimuth, polar (radians)
+  private panDelta = new THREE.Vector3();
+  private focusGoal: THREE.Vector3 | null = null;
+  private viewGoal: { direction: THREE.Vector3; target: THREE.Vector3; distance: number } | null = null;
+
+  private readonly offset = new THREE.Vector3();
+  private readonly spherical = new THREE.Spherical();
+
+  constructor(readonly perspective: THREE.PerspectiveCamera) {}
+
+  /** The camera to render and raycast with. */
+  get camera(): THREE.PerspectiveCamera | THREE.OrthographicCamera {
+    return this.projection === 'perspective' ? this.perspective : this.orthographic;
+  }
+
+  setViewport(width: number, height: number) {
+    this.width = Math.max(width, 1);
+    this.height = Math.max(height, 1);
+  }
+
+  /** Drag in view pixels; a drag across the full height turns the camera once round. */
+  rotate(dx: number, dy: number) {
+    this.rotateDelta.x -= (2 * Math.PI * dx) / this.height;
+    this.rotateDelta.y -= (2 * Math.PI * dy) / this.height;
+    this.viewGoal = null;
+  }
+
+  /** Moves camera and target so the surface at the target follows the fingers. */
+  pan(dx: number, dy: number) {
+    const worldPerPixel = this.worldPerPixel();
+    const right = new THREE.Vector3().setFromMatrixColumn(this.perspective.matrix, 0);
+    const up = new THREE.Vector3().setFromMatrixColumn(this.perspective.matrix, 1);
+    this.panDelta
+      .addScaledVector(right, -dx * worldPerPixel)
+      .addScaledVector(up, dy * worldPerPixel);
+    this.focusGoal = null;
+    this.viewGoal = null;
+  }
+
+  /**
+   * Scales the distance to the target by 1/`scale`, moving toward the point
+   * under (`x`, `y`) in view pixels so that point stays under the fingers.
+   * The orthographic frustum follows the distance, so this zooms both.
+   */
+  zoom(scale: number, x = this.width / 2, y = this.height / 2) {
+    const distance = this.perspective.position.distanceTo(this.target);
+    const next = THREE.MathUtils.clamp(distance / scale, this.minDistance, this.maxDistance);
+    const t = 1 - next / distance;
+    if (t === 0) return;
+
+    const focus = this.pointOnTargetPlane(x, y);
+    this.perspective.position.lerp(focus, t);
+    this.target.lerp(focus, t);
+    this.focusGoal = null;
+    this.viewGoal = null;
+  }
+
+  /** Glides the target to `point`, keeping the current viewing direction and distance. */
+  focusOn(point: THREE.Vector3) {
+    this.focusGoal = point.clone();
+    this.viewGoal = null;
+  }
+
+  /** Frames `object` from the front and orbits around its centre. */
+  fit(object: THREE.Object3D) {
+    fitCameraToObject(this.perspective, object);
+    new THREE.Box3().setFromObject(object).getCenter(this.target);
+    this.setDistanceLimits(this.perspective.position.distanceTo(this.target));
+    this.rotateDelta.set(0, 0);
+    this.panDelta.set(0, 0, 0);
+    this.focusGoal = null;
+    this.viewGoal = null;
+  }
+
+  /**
+   * Animates to a standard view of `object`, framed like `fit`. Directions
+   * are taken in the object's frame, so "front" means the model's front
+   * even after it has been turned.
+   */
+  setView(preset: ViewPreset, object: THREE.Object3D) {
+    const { center, distance } = fitDistance(this.perspective, object);
+    const direction = VIEW_DIRECTIONS[preset].clone().applyQuaternion(object.getWorldQuaternion(new THREE.Quaternion()));
+    this.setDistanceLimits(distance);
+    this.perspective.near = distance / 100;
+    this.perspective.far = distance * 100;
+    this.perspective.updateProjectionMatrix();
+    this.rotateDelta.set(0, 0);
+    this.panDelta.set(0, 0, 0);
+    this.focusGoal = null;
+    this.viewGoal = { direction, target: center, distance };
+  }
+
+  setProjection(projection: Projection) {
+    this.projection = projection;
+    this.update();
+  }
+
+  update() {
+    const k = this.dampingFactor;
+
+    this.offset.copy(this.perspective.position).sub(this.target);
+    if (this.viewGoal) {
+      // Presets may pass over a pole, which the orbit's polar clamp would block
+      this.stepToView(this.viewGoal, k);
+    } else {
+      this.spherical.setFromVector3(this.offset);
+      this.spherical.theta += this.rotateDelta.x * k;
+      this.spherical.phi = THREE.MathUtils.clamp(this.spherical.phi + this.rotateDelta.y * k, 1e-3, Math.PI - 1e-3);
+      this.rotateDelta.multiplyScalar(1 - k);
+      this.offset.setFromSpherical(this.spherical);
+    }
+    if (this.focusGoal) {
+      this.target.lerp(this.focusGoal, k);
+      if (this.target.distanceToSquared(this.focusGoal) < 1e-8) {
+        this.target.copy(this.focusGoal);
+        this.focusGoal = null;
+      }
+    }
+    const pan = this.panDelta.clone().multiplyScalar(k);
+    this.target.add(pan);
+    this.panDelta.sub(pan);
+
+    this.perspective.position.copy(this.target).add(this.offset);
+    this.perspective.lookAt(this.target);
+    this.perspective.updateMatrixWorld();
+    this.syncOrthographic();
+  }
+
+  /** Turns `offset` and moves the target a damped step toward the view goal. */
+  private stepToView(goal: { direction: THREE.Vector3; target: THREE.Vector3; distance: number }, k: number) {
+    const distance = this.offset.length();
+    const direction = this.offset.clone().normalize();
+    // Slerp rather than lerp the direction so opposite views (front to back) still turn
+    const turn = new THREE.Quaternion().setFromUnitVectors(direction, goal.direction);
+    direction.applyQuaternion(new THREE.Quaternion().slerp(turn, k));
+    const nextDistance = THREE.MathUtils.lerp(distance, goal.distance, k);
+    this.offset.copy(direction).multiplyScalar(nextDistance);
+    this.target.lerp(goal.target, k);
+
+    const done =
+      direction.angleTo(goal.direction) < 1e-3 &&
+      Math.abs(nextDistance - goal.distance) < goal.distance * 1e-3 &&
+      this.target.distanceTo(goal.target) < goal.distance * 1e-3;
+    if (done) {
+      this.offset.copy(goal.direction).multiplyScalar(goal.distance);
+      this.target.copy(goal.target);
+      this.viewGoal = null;
+    }
+  }
+
+  private syncOrthographic() {
+    const ortho = this.orthographic;
+    const halfHeight = this.worldPerPixel() * this.height / 2;
+    const halfWidth = halfHeight * (this.width / this.height);
+    ortho.position.copy(this.perspective.position);
+    ortho.quaternion.copy(this.perspective.quaternion);
+    ortho.left = -halfWidth;
+    ortho.right = halfWidth;
+    ortho.top = halfHeight;
+    ortho.bottom = -halfHeight;
+    // Nothing is cut off in front of the camera when zoomed in close
+    ortho.near = -this.maxDistance;
+    ortho.far = this.maxDistance * 2;
+    ortho.updateProjectionMatrix();
+    ortho.updateMatrixWorld();
+  }
+
+  private setDistanceLimits(fitDistance: number) {
+    this.minDistance = fitDistance * 0.02;
+    this.maxDistance = fitDistance * 20;
+  }
+
+  private worldPerPixel() {
+    const distance = this.perspective.position.distanceTo(this.target);
+    return (2 * distance * Math.tan(THREE.MathUtils.degToRad(this.perspective.fov) / 2)) / this.height;
+  }
+
+  private pointOnTargetPlane(x: number, y: number) {
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(new THREE.Vector2((x / this.width) * 2 - 1, -(y / this.height) * 2 + 1), this.camera);
+    const normal = this.perspective.getWorldDirection(new THREE.Vector3());
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, this.target);
+    return raycaster.ray.intersectPlane(plane, new THREE.Vector3()) ?? this.target.clone();
+  }
+}
+
+/**
+ * Touch and mouse handling for OrbitControls: one finger orbits, two fingers
+ * pan and pinch-zoom around their midpoint. Taps are reported separately;
+ * when `onDoubleTap` is given, single taps wait out the double-tap window.
+ * `onGestureStart` and `onGestureEnd` bracket every drag or pinch.
+ */
+export function createOrbitResponder(
+  getControls: () => OrbitControls | null,
+  callbacks: {
+    onTap?: (x: number, y: number) => void;
+    onDoubleTap?: (x: number, y: number) => void;
+    onGestureStart?: () => void;
+    onGestureEnd?: () => void;
+  } = {}
+): PanResponderInstance {
+  let last: { x: number; y: number } | null = null;
+  let lastPinch: { distance: number; x: number; y: number } | null = null;
+  let start = { x: 0, y: 0, time: 0 };
+  let moved = false;
+  let multiTouch = false;
+  let gesturing = false;
+  let pendingTap: { x: number; y: number; time: number; timer: ReturnType<typeof setTimeout> } | null = null;
+
+  const touchPoints = (e: GestureResponderEvent) => {
+    const { touches, locationX, locationY, pageX, pageY } = e.nativeEvent;
+    // Page and location coordinates differ by the view's offset on screen
+    const dx = locationX - pageX;
+    const dy = locationY - pageY;
+    return touches.length > 0
+      ? touches.map(t => ({ x: t.pageX + dx, y: t.pageY + dy }))
+      : [{ x: locationX, y: locationY }];
+  };
+
+  const handleTap = (x: number, y: number) => {
+    const now = Date.now();
+    if (!callbacks.onDoubleTap) {
+      callbacks.onTap?.(x, y);
+      return;
+    }
+    if (pendingTap && now - pendingTap.time < DOUBLE_TAP_MS && Math.hypot(x - pendingTap.x, y - pendingTap.y) < TAP_SLOP * 4) {
+      clearTimeout(pendingTap.timer);
+      pendingTap = null;
+      callbacks.onDoubleTap(x, y);
+      return;
+    }
+    if (pendingTap) clearTimeout(pendingTap.timer);
+    pendingTap = {
+      x,
+      y,
+      time: now,
+      timer: setTimeout(() => {
+        pendingTap = null;
+        callbacks.onTap?.(x, y);
+      }, DOUBLE_TAP_MS),
+    };
+  };
+
+  const endGesture = () => {
+    if (gesturing) {
+      gesturing = false;
+      callbacks.onGestureEnd?.();
+    }
+    last = null;
+    lastPinch = null;
+  };
+
+  return PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: e => {
+      const [p] = touchPoints(e);
+      start = { x: p.x, y: p.y, time: Date.now() };
+      last = p;
+      lastPinch = null;
+      moved = false;
+      multiTouch = false;
+    },
+    onPanResponderMove: e => {
+      const controls = getControls();
+      if (!controls) return;
+      const points = touchPoints(e);
+
+      if (points.length >= 2) {
+        if (!gesturing) {
+          gesturing = true;
+          callbacks.onGestureStart?.();
+        }
+        multiTouch = true;
+        last = null;
+        const [a, b] = points;
+        const pinch = { distance: Math.hypot(a.x - b.x, a.y - b.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        if (lastPinch) {
+          controls.pan(pinch.x - lastPinch.x, pinch.y - lastPinch.y);
+          if (lastPinch.distance > 0) controls.zoom(pinch.distance / lastPinch.distance, pinch.x, pinch.y);
+        }
+        lastPinch = pinch;
+        return;
+      }
+
+      // Lifting one finger of a pinch restarts the orbit from where the other one is
+      lastPinch = null;
+      const [p] = points;
+      if (Math.hypot(p.x - start.x, p.y - start.y) > TAP_SLOP) moved = true;
+      if (moved && !gesturing) {
+        gesturing = true;
+        callbacks.onGestureStart?.();
+      }
+      if (last && moved) controls.rotate(p.x - last.x, p.y - last.y);
+      last = p;
+    },
+    onPanResponderRelease: () => {
+      if (!moved && !multiTouch && Date.now() - start.time < TAP_MAX_MS) {
+        handleTap(start.x, start.y);
+      }
+      endGesture();
+    },
+    // The OS or a parent can take the touch away; the gesture still has to end
+    onPanResponderTerminate: endGesture,
+  });
+}
+
+/** Mouse wheel zoom toward the cursor. Only react-native-web delivers wheel events. */
+export function createWheelHandler(getControls: () => OrbitControls | null) {
+  return (e: any) => {
+    const { deltaY, offsetX, offsetY } = e.nativeEvent ?? e;
+    getControls()?.zoom(Math.exp(-deltaY * 0.001), offsetX, offsetY);
+  };
+}
@@ -0,0 +1,273 @@
+import * as THREE from 'three';
+import JSZip from 'jszip';
+import { ModelLoadError } from './errors';
+import { scanXML } from './xml';
+
+const MODEL_RELATIONSHIP = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel';
+const DEFAULT_MODEL_PATH = '3D/3dmodel.model';
+// Components may nest; deeper than this is a reference cycle
+const MAX_COMPONENT_DEPTH = 32;
+// Same grey as plain STL meshes, for triangles without a colour in a coloured object
+const DEFAULT_COLOR = new THREE.Color(0x6c757d);
+
+type MfObject = {
+  id: string;
+  name: string;
+  /** Triangle corners, 9 floats per triangle. */
+  corners: number[];
+  /** Linear RGB per corner, only when the object assigns any colour. */
+  colors: number[] | null;
+  components: { objectId: string; path?: string; transform: THREE.Matrix4 }[];
+};
+
+type MfModel = {
+  unit: string;
+  objects: Map<string, MfObject>;
+  build: { objectId: string; path?: string; transform: THREE.Matrix4 }[];
+};
+
+export class ThreeMFError extends ModelLoadError {
+  constructor(message: string) {
+    super('Invalid 3MF file', `${message} Re-export the file from your slicer or CAD tool.`);
+    this.name = 'ThreeMFError';
+  }
+}
+
+/**
+ * Reads a 3MF package: the root model part with its objects, components and
+ * build items, plus any model parts the production extension refers to.
+ * Build and component transforms are applied as object matrices, base
+ * materials and colour groups become vertex colours.
+ */
+export async function parse3MF(
+  buffer: ArrayBuffer,
+  onProgress?: (fraction: number) => void
+): Promise<{ object: THREE.Group; unit: string; objectCount: number; triangleCount: number }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (err: any) {
+    throw new ThreeMFError(`The package could not be unpacked (${err.message}).`);
+  }
+
+  const rootPath = await findRootModel(zip);
+  const models = new Map<string, MfModel>();
+  const getModel = async (path: string) => {
+    const key = path.replace(/^\//, '');
+    let model = models.get(key);
+    if (!model) {
+      const entry = zip.file(key) ?? zip.file(new RegExp(`^${escapeRegExp(key)}$`, 'i'))[0];
+      if (!entry) throw new ThreeMFError(`The model part ${path} is missing from the package.`);
+      // Only the root part reports progress, referenced parts are usually small
+      model = await parseModel(await entry.async('string'), key === rootPath ? onProgress : undefined);
+      models.set(key, model);
+    }
+    return model;
+  };
+
+  const root = await getModel(rootPath);
+  const geometries = new Map<MfObject, THREE.BufferGeometry>();
+  const plain = new THREE.MeshStandardMaterial({ color: 0x6c757d, metalness: 0.2, roughness: 0.5, side: THREE.DoubleSide });
+  const colored = new THREE.MeshStandardMaterial({ vertexColors: true, metalness: 0.2, roughness: 0.5, side: THREE.DoubleSide });
+  let objectCount = 0;
+  let triangleCount = 0;
+
+  const instantiate = async (model: MfModel, objectId: string, path: string | undefined, depth: number): Promise<THREE.Object3D> => {
+    if (depth > MAX_COMPONENT_DEPTH) throw new ThreeMFError('Components refer to each other in a loop.');
+    const source = path ? await getModel(path) : model;
+    const object = source.objects.get(objectId);
+    if (!object) throw new ThreeMFError(`An item refers to object ${objectId}, which is not defined.`);
+
+    const group = new THREE.Group();
+    group.name = object.name;
+    if (object.corners.length > 0) {
+      let geometry = geometries.get(object);
+      if (!geometry) {
+        geometry = buildGeometry(object);
+        geometries.set(object, geometry);
+      }
+      group.add(new THREE.Mesh(geometry, object.colors ? colored : plain));
+      objectCount++;
+      triangleCount += object.corners.length / 9;
+    }
+    for (const component of object.components) {
+      const child = await instantiate(source, component.objectId, component.path, depth + 1);
+      child.applyMatrix4(component.transform);
+      group.add(child);
+    }
+    return group;
+  };
+
+  const result = new THREE.Group();
+  for (const item of root.build) {
+    const object = await instantiate(root, item.objectId, item.path, 0);
+    object.applyMatrix4(item.transform);
+    result.add(object);
+  }
+
+  if (objectCount === 0) {
+    throw new ThreeMFError('The build contains no mesh objects.');
+  }
+  return { object: result, unit: root.unit, objectCount, triangleCount };
+}
+
+/** The start part named in the package relationships, or the conventional path. */
+async function findRootModel(zip: JSZip): Promise<string> {
+  const rels = zip.file('_rels/.rels');
+  if (rels) {
+    let target: string | null = null;
+    await scanXML(await rels.async('string'), tag => {
+      if (tag.name === 'Relationship' && tag.attributes.Type === MODEL_RELATIONSHIP && !target) {
+        target = tag.attributes.Target;
+      }
+    });
+    if (target) return (target as string).replace(/^\//, '');
+  }
+  if (zip.file(DEFAULT_MODEL_PATH)) return DEFAULT_MODEL_PATH;
+  const anyModel = zip.file(/\.model$/i)[0];
+  if (!anyModel) throw new ThreeMFError('The package has no 3D model part.');
+  return anyModel.name;
+}
+
+async function parseModel(xml: string, onProgress?: (fraction: number) => void): Promise<MfModel> {
+  const model: MfModel = { unit: 'millimeter', objects: new Map(), build: [] };
+  // Property groups by id: linear RGB, 3 floats per entry
+  const groups = new Map<string, number[]>();
+  let group: number[] | null = null;
+  let object: MfObject | null = null;
+  let objectPid: string | undefined;
+  let objectPindex: string | undefined;
+  let vertices: number[] = [];
+  let inBuild = false;
+  const color = new THREE.Color();
+
+  const pushColor = (list: number[], value: string | undefined) => {
+    parseColor(value, color);
+    list.push(color.r, color.g, color.b);
+  };
+
+  await scanXML(xml, tag => {
+    const a = tag.attributes;
+    if (tag.closing) {
+      if (tag.name === 'basematerials' || tag.name === 'colorgroup') group = null;
+      else if (tag.name === 'object' && object) {
+        model.objects.set(object.id, object);
+        object = null;
+        vertices = [];
+      } else if (tag.name === 'build') inBuild = false;
+      return;
+    }
+
+    switch (tag.name) {
+      case 'model':
+        if (a.unit) model.unit = a.unit;
+        break;
+      case 'basematerials':
+      case 'colorgroup':
+        group = [];
+        groups.set(a.id, group);
+        break;
+      case 'base':
+        if (group) pushColor(group, a.displaycolor);
+        break;
+      case 'color':
+        if (group) pushColor(group, a.color);
+        break;
+      case 'object':
+        object = { id: a.id, name: a.name ?? `Object ${a.id}`, corners: [], colors: null, components: [] };
+        objectPid = a.pid;
+        objectPindex = a.pindex;
+        vertices = [];
+        if (tag.selfClosing) {
+          model.objects.set(object.id, object);
+          object = null;
+        }
+        break;
+      case 'vertex':
+        vertices.push(parseFloat(a.x), parseFloat(a.y), parseFloat(a.z));
+        break;
+      case 'triangle': {
+        if (!object) break;
+        const corners = [a.v1, a.v2, a.v3].map(v => parseInt(v, 10));
+        for (const v of corners) {
+          if (!(v >= 0 && v * 3 < vertices.length)) {
+            throw new ThreeMFError(`Object ${object.id} has a triangle with vertex index ${v}, out of range.`);
+          }
+          object.corners.push(vertices[v * 3], vertices[v * 3 + 1], vertices[v * 3 + 2]);
+        }
+
+        const properties = groups.get(a.pid ?? objectPid ?? '');
+        const p1 = a.p1 ?? objectPindex;
+        if (properties && p1 !== undefined) {
+          if (!object.colors) {
+            object.colors = [];
+            for (let i = 0; i < object.corners.length / 3 - 3; i++) {
+              object.colors.push(DEFAULT_COLOR.r, DEFAULT_COLOR.g, DEFAULT_COLOR.b);
+            }
+          }
+          for (const p of [p1, a.p2 ?? p1, a.p3 ?? p1]) {
+            const i = parseInt(p, 10) * 3;
+            const known = i >= 0 && i < properties.length;
+            object.colors.push(
+              known ? properties[i] : DEFAULT_COLOR.r,
+              known ? properties[i + 1] : DEFAULT_COLOR.g,
+              known ? properties[i + 2] : DEFAULT_COLOR.b
+            );
+          }
+        } else if (object.colors) {
+          for (let k = 0; k < 3; k++) object.colors.push(DEFAULT_COLOR.r, DEFAULT_COLOR.g, DEFAULT_COLOR.b);
+        }
+        break;
+      }
+      case 'component':
+        object?.components.push({ objectId: a.objectid, path: a.path, transform: parseTransform(a.transform) });
+        break;
+      case 'build':
+        inBuild = !tag.selfClosing;
+        break;
+      case 'item':
+        if (inBuild) model.build.push({ objectId: a.objectid, path: a.path, transform: parseTransform(a.transform) });
+        break;
+    }
+  }, onProgress);
+
+  return model;
+}
+
+function buildGeometry(object: MfObject) {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(object.corners), 3));
+  if (object.colors) geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(object.colors), 3));
+  // Flat normals, like STL: 3MF meshes are mostly CAD parts with sharp edges
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * 3MF writes affine transforms as 12 numbers, row by row for row vectors:
+ * [x y z 1] * M. Three.js uses column vectors, hence the transposed layout.
+ */
+function parseTransform(value: string | undefined): THREE.Matrix4 {
+  const matrix = new THREE.Matrix4();
+  if (!value) return matrix;
+  const m = value.trim().split(/\s+/).map(Number);
+  if (m.length !== 12 || m.some(n => !Number.isFinite(n))) {
+    throw new ThreeMFError(`The transform "${value}" is not 12 numbers.`);
+  }
+  return matrix.set(
+    m[0], m[3], m[6], m[9],
+    m[1], m[4], m[7], m[10],
+    m[2], m[5], m[8], m[11],
+    0, 0, 0, 1
+  );
+}
+
+/** #RRGGBB or #RRGGBBAA in sRGB; the alpha channel is ignored. */
+function parseColor(value: string | undefined, target: THREE.Color) {
+  const hex = value && /^#([\da-f]{6})([\da-f]{2})?$/i.exec(value.trim());
+  return hex ? target.set(`#${hex[1]}`) : target.setRGB(1, 1, 1);
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
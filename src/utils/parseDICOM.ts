@@ -0,0 +1,282 @@
+import * as dicomParser from 'dicom-parser';
+import type { Volume } from './marchingCubes';
+
+export type DicomSlice = {
+  fileName: string;
+  seriesInstanceUID: string;
+  seriesDescription: string;
+  studyDescription: string;
+  studyDate: string;
+  patientName: string;
+  patientID: string;
+  modality: string;
+  instanceNumber: number;
+  imagePosition: [number, number, number] | null;
+  imageOrientation: [number, number, number, number, number, number] | null;
+  rows: number;
+  columns: number;
+  pixelSpacing: [number, number]; // [row spacing, column spacing] in mm
+  sliceThickness: number | null;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+  windowCenter: number | null;
+  windowWidth: number | null;
+  invert: boolean; // MONOCHROME1
+  pixels: Int16Array | Uint16Array | Int8Array | Uint8Array;
+};
+
+export type DicomSeries = {
+  uid: string;
+  description: string;
+  modality: string;
+  patientName: string;
+  patientID: string;
+  studyDescription: string;
+  studyDate: string;
+  rows: number;
+  columns: number;
+  pixelSpacing: [number, number];
+  sliceSpacing: number;
+  slices: DicomSlice[];
+};
+
+const BIG_ENDIAN_TRANSFER_SYNTAX = '1.2.840.10008.1.2.2';
+
+export function parseDicomSlice(buffer: ArrayBuffer, fileName: string): DicomSlice {
+  const byteArray = new Uint8Array(buffer);
+  const dataSet = dicomParser.parseDicom(byteArray);
+
+  const pixelElement = dataSet.elements.x7fe00010;
+  if (!pixelElement) {
+    throw new Error(`${fileName} has no pixel data`);
+  }
+  if (pixelElement.encapsulatedPixelData) {
+    throw new Error(`${fileName} uses a compressed transfer syntax, which is not supported yet`);
+  }
+
+  const samplesPerPixel = dataSet.uint16('x00280002') ?? 1;
+  if (samplesPerPixel !== 1) {
+    throw new Error(`${fileName} is not a greyscale image`);
+  }
+
+  const rows = dataSet.uint16('x00280010') ?? 0;
+  const columns = dataSet.uint16('x00280011') ?? 0;
+  const bitsAllocated = dataSet.uint16('x00280100') ?? 16;
+  const signed = dataSet.uint16('x00280103') === 1;
+  const bigEndian = dataSet.string('x00020010') === BIG_ENDIAN_TRANSFER_SYNTAX;
+
+  const pixelCount = rows * columns;
+  const bytesPerPixel = bitsAllocated / 8;
+  if (pixelCount === 0 || pixelElement.length < pixelCount * bytesPerPixel) {
+    throw new Error(`${fileName} has truncated pixel data`);
+  }
+
+  // Copy the first frame out of the file buffer so the typed array is aligned
+  const start = byteArray.byteOffset + pixelElement.dataOffset;
+  const raw = byteArray.buffer.slice(start, start + pixelCount * bytesPerPixel) as ArrayBuffer;
+  let pixels: DicomSlice['pixels'];
+  if (bitsAllocated === 8) {
+    pixels = signed ? new Int8Array(raw) : new Uint8Array(raw);
+  } else if (bitsAllocated === 16) {
+    if (bigEndian) swapBytes16(new Uint8Array(raw));
+    pixels = signed ? new Int16Array(raw) : new Uint16Array(raw);
+  } else {
+    throw new Error(`${fileName} uses ${bitsAllocated}-bit pixels, which are not supported`);
+  }
+
+  const position = readNumbers(dataSet, 'x00200032', 3);
+  const orientation = readNumbers(dataSet, 'x00200037', 6);
+  const spacing = readNumbers(dataSet, 'x00280030', 2);
+
+  return {
+    fileName,
+    seriesInstanceUID: dataSet.string('x0020000e') ?? 'unknown',
+    seriesDescription: dataSet.string('x0008103e') ?? '',
+    studyDescription: dataSet.string('x00081030') ?? '',
+    studyDate: formatDate(dataSet.string('x00080020')),
+    patientName: (dataSet.string('x00100010') ?? '').replace(/\^+/g, ' ').trim(),
+    patientID: dataSet.string('x00100020') ?? '',
+    modality: dataSet.string('x00080060') ?? '',
+    instanceNumber: dataSet.intString('x00200013') ?? 0,
+    imagePosition: position as DicomSlice['imagePosition'],
+    imageOrientation: orientation as DicomSlice['imageOrientation'],
+    rows,
+    columns,
+    pixelSpacing: (spacing as [number, number] | null) ?? [1, 1],
+    sliceThickness: dataSet.floatString('x00180050') ?? null,
+    rescaleSlope: dataSet.floatString('x00281053') ?? 1,
+    rescaleIntercept: dataSet.floatString('x00281052') ?? 0,
+    windowCenter: dataSet.floatString('x00281050') ?? null,
+    windowWidth: dataSet.floatString('x00281051') ?? null,
+    invert: dataSet.string('x00280004') === 'MONOCHROME1',
+    pixels,
+  };
+}
+
+/**
+ * Groups slices by SeriesInstanceUID and orders each series along the slice
+ * normal using ImagePositionPatient, falling back to InstanceNumber.
+ */
+export function groupSeries(slices: DicomSlice[]): DicomSeries[] {
+  const bySeries = new Map<string, DicomSlice[]>();
+  for (const slice of slices) {
+    const list = bySeries.get(slice.seriesInstanceUID);
+    if (list) list.push(slice);
+    else bySeries.set(slice.seriesInstanceUID, [slice]);
+  }
+
+  const series: DicomSeries[] = [];
+  bySeries.forEach((list, uid) => {
+    const normal = sliceNormal(list[0]);
+    const hasPositions = normal !== null && list.every(s => s.imagePosition !== null);
+    const depth = (s: DicomSlice) =>
+      hasPositions ? dot(s.imagePosition!, normal!) : s.instanceNumber;
+    list.sort((a, b) => depth(a) - depth(b));
+
+    const first = list[0];
+    series.push({
+      uid,
+      description: first.seriesDescription,
+      modality: first.modality,
+      patientName: first.patientName,
+      patientID: first.patientID,
+      studyDescription: first.studyDescription,
+      studyDate: first.studyDate,
+      rows: first.rows,
+      columns: first.columns,
+      pixelSpacing: first.pixelSpacing,
+      sliceSpacing: hasPositions && list.length > 1
+        ? Math.abs(depth(list[list.length - 1]) - depth(first)) / (list.length - 1)
+        : first.sliceThickness ?? 1,
+      slices: list,
+    });
+  });
+
+  // Largest series first, that is usually the one the user wants to look at
+  return series.sort((a, b) => b.slices.length - a.slices.length);
+}
+
+/**
+ * Applies rescale slope/intercept and a window/level to a slice and returns
+ * 8-bit RGBA pixels ready for a texture.
+ */
+export function sliceToRGBA(
+  slice: DicomSlice,
+  windowCenter: number,
+  windowWidth: number,
+  out?: Uint8Array
+): Uint8Array {
+  const { pixels, rescaleSlope, rescaleIntercept, invert } = slice;
+  const rgba = out ?? new Uint8Array(pixels.length * 4);
+  const low = windowCenter - windowWidth / 2;
+  const scale = 255 / Math.max(windowWidth, 1);
+
+  for (let i = 0; i < pixels.length; i++) {
+    const value = pixels[i] * rescaleSlope + rescaleIntercept;
+    let grey = (value - low) * scale;
+    grey = grey < 0 ? 0 : grey > 255 ? 255 : grey;
+    if (invert) grey = 255 - grey;
+    const o = i * 4;
+    rgba[o] = rgba[o + 1] = rgba[o + 2] = grey;
+    rgba[o + 3] = 255;
+  }
+  return rgba;
+}
+
+/** Default window for a slice: the file's own, or the full value range. */
+export function defaultWindow(slice: DicomSlice): { center: number; width: number } {
+  if (slice.windowCenter !== null && slice.windowWidth !== null && slice.windowWidth > 0) {
+    return { center: slice.windowCenter, width: slice.windowWidth };
+  }
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < slice.pixels.length; i++) {
+    const v = slice.pixels[i];
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  min = min * slice.rescaleSlope + slice.rescaleIntercept;
+  max = max * slice.rescaleSlope + slice.rescaleIntercept;
+  return { center: (min + max) / 2, width: Math.max(max - min, 1) };
+}
+
+/**
+ * Stacks a series into a Hounsfield-unit volume in patient axis order
+ * (columns, rows, slices). In-plane resolution is averaged down by whole
+ * steps until the voxel count fits `maxVoxels`, and the spacing is scaled
+ * to match so the volume stays in millimetres.
+ */
+export function seriesToVolume(series: DicomSeries, maxVoxels = 1 << 24): Volume {
+  const { rows, columns, slices } = series;
+  let step = 1;
+  while (Math.ceil(columns / step) * Math.ceil(rows / step) * slices.length > maxVoxels) step++;
+
+  const nx = Math.floor(columns / step);
+  const ny = Math.floor(rows / step);
+  const nz = slices.length;
+  const data = new Int16Array(nx * ny * nz);
+  const area = step * step;
+
+  slices.forEach((slice, z) => {
+    if (slice.rows !== rows || slice.columns !== columns) {
+      throw new Error(`${slice.fileName} does not match the series image size`);
+    }
+    const { pixels, rescaleSlope, rescaleIntercept } = slice;
+    const base = z * nx * ny;
+    for (let y = 0; y < ny; y++) {
+      for (let x = 0; x < nx; x++) {
+        let sum = 0;
+        for (let dy = 0; dy < step; dy++) {
+          const row = (y * step + dy) * columns + x * step;
+          for (let dx = 0; dx < step; dx++) sum += pixels[row + dx];
+        }
+        const hu = (sum / area) * rescaleSlope + rescaleIntercept;
+        data[base + y * nx + x] = Math.max(-32768, Math.min(32767, Math.round(hu)));
+      }
+    }
+  });
+
+  return {
+    data,
+    dims: [nx, ny, nz],
+    spacing: [series.pixelSpacing[1] * step, series.pixelSpacing[0] * step, series.sliceSpacing],
+  };
+}
+
+function sliceNormal(slice: DicomSlice): [number, number, number] | null {
+  const o = slice.imageOrientation;
+  if (!o) return null;
+  return [
+    o[1] * o[5] - o[2] * o[4],
+    o[2] * o[3] - o[0] * o[5],
+    o[0] * o[4] - o[1] * o[3],
+  ];
+}
+
+function dot(a: number[], b: number[]) {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function readNumbers(dataSet: dicomParser.DataSet, tag: string, count: number): number[] | null {
+  if (!dataSet.elements[tag]) return null;
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const v = dataSet.floatString(tag, i);
+    if (v === undefined || Number.isNaN(v)) return null;
+    values.push(v);
+  }
+  return values;
+}
+
+function formatDate(da?: string) {
+  if (!da || da.length !== 8) return da ?? '';
+  return `${da.slice(0, 4)}-${da.slice(4, 6)}-${da.slice(6, 8)}`;
+}
+
+function swapBytes16(bytes: Uint8Array) {
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    const t = bytes[i];
+    bytes[i] = bytes[i + 1];
+    bytes[i + 1] = t;
+  }
+}
@@ -0,0 +1,409 @@
+import * as THREE from 'three';
+
+export type PlyFormat = 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+
+export type PlyScalarType =
+  | 'int8' | 'uint8' | 'int16' | 'uint16'
+  | 'int32' | 'uint32' | 'float32' | 'float64';
+
+export type PlyProperty =
+  | { name: string; kind: 'scalar'; type: PlyScalarType }
+  | { name: string; kind: 'list'; countType: PlyScalarType; itemType: PlyScalarType };
+
+export type PlyElementHeader = {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+};
+
+export type PlyHeader = {
+  format: PlyFormat;
+  version: string;
+  comments: string[];
+  elements: PlyElementHeader[];
+  byteLength: number; // offset of the body
+};
+
+/** A list property: items of instance i are values[offsets[i]] .. values[offsets[i + 1] - 1]. */
+export type PlyList = {
+  offsets: Uint32Array;
+  values: Float64Array;
+};
+
+export type PlyElement = {
+  name: string;
+  count: number;
+  scalars: Record<string, ArrayLike<number>>;
+  lists: Record<string, PlyList>;
+};
+
+export type PlyData = {
+  header: PlyHeader;
+  elements: Record<string, PlyElement>;
+};
+
+// Both the original names and the sized aliases from later PLY writers
+const TYPE_ALIASES: Record<string, PlyScalarType> = {
+  char: 'int8', int8: 'int8',
+  uchar: 'uint8', uint8: 'uint8',
+  short: 'int16', int16: 'int16',
+  ushort: 'uint16', uint16: 'uint16',
+  int: 'int32', int32: 'int32',
+  uint: 'uint32', uint32: 'uint32',
+  float: 'float32', float32: 'float32',
+  double: 'float64', float64: 'float64',
+};
+
+const TYPE_SIZES: Record<PlyScalarType, number> = {
+  int8: 1, uint8: 1, int16: 2, uint16: 2,
+  int32: 4, uint32: 4, float32: 4, float64: 8,
+};
+
+const TYPE_ARRAYS = {
+  int8: Int8Array, uint8: Uint8Array, int16: Int16Array, uint16: Uint16Array,
+  int32: Int32Array, uint32: Uint32Array, float32: Float32Array, float64: Float64Array,
+};
+
+// Property names used by common writers, first match wins
+const NORMAL_NAMES = [['nx', 'ny', 'nz'], ['normal_x', 'normal_y', 'normal_z']];
+const COLOR_NAMES = [['red', 'green', 'blue'], ['diffuse_red', 'diffuse_green', 'diffuse_blue'], ['r', 'g', 'b']];
+const ALPHA_NAMES = ['alpha', 'diffuse_alpha', 'a'];
+const UV_NAMES = [['u', 'v'], ['s', 't'], ['texture_u', 'texture_v'], ['texture_s', 'texture_t']];
+
+export function parsePLY(buffer: ArrayBuffer): {
+  geometry: THREE.BufferGeometry;
+  format: PlyFormat;
+  hasColors: boolean;
+  hasAlpha: boolean;
+  isPointCloud: boolean;
+  vertexCount: number;
+  faceCount: number;
+  triangleCount: number;
+} {
+  const ply = readPLY(buffer);
+  const vertex = ply.elements.vertex;
+  if (!vertex) {
+    throw new Error('PLY file has no vertex element');
+  }
+
+  const position = pickScalars(vertex, [['x', 'y', 'z']]);
+  if (!position) {
+    throw new Error('PLY vertex element is missing x/y/z properties');
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', interleave(vertex.count, position, 1));
+
+  const normal = pickScalars(vertex, NORMAL_NAMES);
+  if (normal) {
+    geometry.setAttribute('normal', interleave(vertex.count, normal, 1));
+  }
+
+  const uv = pickScalars(vertex, UV_NAMES);
+  if (uv) {
+    geometry.setAttribute('uv', interleave(vertex.count, uv, 1));
+  }
+
+  const rgb = pickScalars(vertex, COLOR_NAMES);
+  const alphaName = ALPHA_NAMES.find(name => name in vertex.scalars);
+  const hasColors = rgb !== null;
+  const hasAlpha = hasColors && alphaName !== undefined;
+  if (rgb) {
+    const channels = hasAlpha ? [...rgb, vertex.scalars[alphaName!]] : rgb;
+    geometry.setAttribute('color', interleave(vertex.count, channels, colorScale(channels[0])));
+  }
+
+  const face = ply.elements.face;
+  const faceList = face && (face.lists.vertex_indices ?? face.lists.vertex_index);
+  const faceCount = face?.count ?? 0;
+  let triangleCount = 0;
+
+  if (faceList && faceCount > 0) {
+    // Fan-triangulate polygons, a quad or n-gon becomes n - 2 triangles
+    for (let f = 0; f < faceCount; f++) {
+      triangleCount += Math.max(faceList.offsets[f + 1] - faceList.offsets[f] - 2, 0);
+    }
+    const indices = vertex.count > 65535 ? new Uint32Array(triangleCount * 3) : new Uint16Array(triangleCount * 3);
+    let t = 0;
+    for (let f = 0; f < faceCount; f++) {
+      const start = faceList.offsets[f];
+      const end = faceList.offsets[f + 1];
+      for (let k = start + 1; k + 1 < end; k++) {
+        indices[t++] = faceList.values[start];
+        indices[t++] = faceList.values[k];
+        indices[t++] = faceList.values[k + 1];
+      }
+    }
+    geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+    if (!normal) geometry.computeVertexNormals();
+  }
+
+  return {
+    geometry,
+    format: ply.header.format,
+    hasColors,
+    hasAlpha,
+    isPointCloud: triangleCount === 0,
+    vertexCount: vertex.count,
+    faceCount,
+    triangleCount,
+  };
+}
+
+function pickScalars(element: PlyElement, candidates: string[][]): ArrayLike<number>[] | null {
+  for (const names of candidates) {
+    if (names.every(name => name in element.scalars)) {
+      return names.map(name => element.scalars[name]);
+    }
+  }
+  return null;
+}
+
+function interleave(count: number, channels: ArrayLike<number>[], scale: number) {
+  const size = channels.length;
+  const out = new Float32Array(count * size);
+  for (let i = 0; i < count; i++) {
+    for (let c = 0; c < size; c++) out[i * size + c] = channels[c][i] * scale;
+  }
+  return new THREE.BufferAttribute(out, size);
+}
+
+// Integer colour channels are normalised by their type's range, floats are already 0..1
+function colorScale(sample: ArrayLike<number>) {
+  if (sample instanceof Float32Array || sample instanceof Float64Array) return 1;
+  if (sample instanceof Uint16Array || sample instanceof Int16Array) return 1 / 65535;
+  return 1 / 255;
+}
+
+/**
+ * Reads every element declared in the header, in file order, including
+ * user-defined ones. Scalar properties are stored in typed arrays matching
+ * their declared type.
+ */
+export function readPLY(buffer: ArrayBuffer): PlyData {
+  const header = parsePLYHeader(buffer);
+  const elements: Record<string, PlyElement> = {};
+
+  const storage = header.elements.map(el => {
+    const element: PlyElement = { name: el.name, count: el.count, scalars: {}, lists: {} };
+    const listBuilders: Record<string, ListBuilder> = {};
+    for (const prop of el.properties) {
+      if (prop.kind === 'scalar') {
+        element.scalars[prop.name] = new TYPE_ARRAYS[prop.type](el.count);
+      } else {
+        listBuilders[prop.name] = new ListBuilder(el.count);
+      }
+    }
+    elements[el.name] = element;
+    return { header: el, element, listBuilders };
+  });
+
+  if (header.format === 'ascii') {
+    const tokens = new TokenReader(new TextDecoder().decode(new Uint8Array(buffer, header.byteLength)));
+    for (const { header: el, element, listBuilders } of storage) {
+      for (let i = 0; i < el.count; i++) {
+        for (const prop of el.properties) {
+          if (prop.kind === 'scalar') {
+            (element.scalars[prop.name] as number[])[i] = tokens.nextNumber(el.name);
+          } else {
+            const n = tokens.nextNumber(el.name);
+            const list = listBuilders[prop.name];
+            for (let k = 0; k < n; k++) list.push(tokens.nextNumber(el.name));
+            list.endItem(i);
+          }
+        }
+      }
+    }
+  } else {
+    const littleEndian = header.format === 'binary_little_endian';
+    const dv = new DataView(buffer);
+    let offset = header.byteLength;
+
+    const read = (type: PlyScalarType) => {
+      if (offset + TYPE_SIZES[type] > dv.byteLength) {
+        throw new Error('PLY file is truncated');
+      }
+      const value = readScalar(dv, offset, type, littleEndian);
+      offset += TYPE_SIZES[type];
+      return value;
+    };
+
+    for (const { header: el, element, listBuilders } of storage) {
+      for (let i = 0; i < el.count; i++) {
+        for (const prop of el.properties) {
+          if (prop.kind === 'scalar') {
+            (element.scalars[prop.name] as number[])[i] = read(prop.type);
+          } else {
+            const n = read(prop.countType);
+            const list = listBuilders[prop.name];
+            for (let k = 0; k < n; k++) list.push(read(prop.itemType));
+            list.endItem(i);
+          }
+        }
+      }
+    }
+  }
+
+  for (const { element, listBuilders } of storage) {
+    for (const name of Object.keys(listBuilders)) {
+      element.lists[name] = listBuilders[name].build();
+    }
+  }
+
+  return { header, elements };
+}
+
+export function parsePLYHeader(buffer: ArrayBuffer): PlyHeader {
+  const bytes = new Uint8Array(buffer);
+  const end = findHeaderEnd(bytes);
+  if (end < 0) {
+    throw new Error('Not a PLY file: end_header not found');
+  }
+
+  const lines = new TextDecoder().decode(bytes.subarray(0, end)).split(/\r?\n/);
+  if (lines[0].trim() !== 'ply') {
+    throw new Error('Not a PLY file: missing "ply" magic');
+  }
+
+  const header: PlyHeader = {
+    format: 'ascii',
+    version: '1.0',
+    comments: [],
+    elements: [],
+    byteLength: end,
+  };
+  let current: PlyElementHeader | null = null;
+
+  for (const raw of lines.slice(1)) {
+    const line = raw.trim();
+    if (!line) continue;
+    const parts = line.split(/\s+/);
+
+    switch (parts[0]) {
+      case 'format':
+        if (parts[1] !== 'ascii' && parts[1] !== 'binary_little_endian' && parts[1] !== 'binary_big_endian') {
+          throw new Error(`Unsupported PLY format "${parts[1]}"`);
+        }
+        header.format = parts[1];
+        header.version = parts[2] ?? '1.0';
+        break;
+      case 'comment':
+      case 'obj_info':
+        header.comments.push(line.slice(parts[0].length).trim());
+        break;
+      case 'element':
+        current = { name: parts[1], count: parseInt(parts[2], 10), properties: [] };
+        if (!Number.isFinite(current.count)) {
+          throw new Error(`Invalid count for PLY element "${parts[1]}"`);
+        }
+        header.elements.push(current);
+        break;
+      case 'property':
+        if (!current) {
+          throw new Error('PLY property declared before any element');
+        }
+        if (parts[1] === 'list') {
+          current.properties.push({
+            name: parts[4],
+            kind: 'list',
+            countType: scalarType(parts[2]),
+            itemType: scalarType(parts[3]),
+          });
+        } else {
+          current.properties.push({ name: parts[2], kind: 'scalar', type: scalarType(parts[1]) });
+        }
+        break;
+      case 'end_header':
+        break;
+      default:
+        // Unknown header keywords are ignored, as the spec allows
+        break;
+    }
+  }
+
+  return header;
+}
+
+function scalarType(name: string): PlyScalarType {
+  const type = TYPE_ALIASES[name];
+  if (!type) {
+    throw new Error(`Unknown PLY property type "${name}"`);
+  }
+  return type;
+}
+
+// Returns the offset just past the newline that ends "end_header"
+function findHeaderEnd(bytes: Uint8Array): number {
+  const marker = 'end_header';
+  const limit = Math.min(bytes.length, 1 << 16);
+  outer: for (let i = 0; i + marker.length <= limit; i++) {
+    for (let k = 0; k < marker.length; k++) {
+      if (bytes[i + k] !== marker.charCodeAt(k)) continue outer;
+    }
+    let end = i + marker.length;
+    while (end < bytes.length && (bytes[end] === 0x20 || bytes[end] === 0x0d)) end++;
+    if (bytes[end] === 0x0a) end++;
+    return end;
+  }
+  return -1;
+}
+
+function readScalar(dv: DataView, offset: number, type: PlyScalarType, littleEndian: boolean) {
+  switch (type) {
+    case 'int8': return dv.getInt8(offset);
+    case 'uint8': return dv.getUint8(offset);
+    case 'int16': return dv.getInt16(offset, littleEndian);
+    case 'uint16': return dv.getUint16(offset, littleEndian);
+    case 'int32': return dv.getInt32(offset, littleEndian);
+    case 'uint32': return dv.getUint32(offset, littleEndian);
+    case 'float32': return dv.getFloat32(offset, littleEndian);
+    case 'float64': return dv.getFloat64(offset, littleEndian);
+  }
+}
+
+class ListBuilder {
+  private values: Float64Array;
+  private length = 0;
+  private offsets: Uint32Array;
+
+  constructor(count: number) {
+    this.offsets = new Uint32Array(count + 1);
+    // Most lists are triangle or quad faces
+    this.values = new Float64Array(Math.max(count * 3, 16));
+  }
+
+  push(value: number) {
+    if (this.length === this.values.length) {
+      const next = new Float64Array(this.values.length * 2);
+      next.set(this.values);
+      this.values = next;
+    }
+    this.values[this.length++] = value;
+  }
+
+  endItem(index: number) {
+    this.offsets[index + 1] = this.length;
+  }
+
+  build(): PlyList {
+    return { offsets: this.offsets, values: this.values.subarray(0, this.length) };
+  }
+}
+
+// Walks whitespace-separated tokens without splitting the whole body up front
+class TokenReader {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  nextNumber(elementName: string): number {
+    const { text } = this;
+    while (this.pos < text.length && text.charCodeAt(this.pos) <= 0x20) this.pos++;
+    const start = this.pos;
+    while (this.pos < text.length && text.charCodeAt(this.pos) > 0x20) this.pos++;
+    if (start === this.pos) {
+      throw new Error(`PLY file ends inside element "${elementName}"`);
+    }
+    return Number(text.slice(start, this.pos));
+  }
+}
@@ -1,25 +1,86 @@
 import * as THREE from 'three';
+import { ModelLoadError } from './errors';
 
-export function parseSTL(buffer: ArrayBuffer): {
+export type ParseProgress = (fraction: number) => void;
+
+/** Base class for problems found while reading an STL file. */
+export class StlParseError extends ModelLoadError {
+  constructor(title: string, message: string) {
+    super(title, message);
+    this.name = 'StlParseError';
+  }
+}
+
+export class StlTruncatedError extends StlParseError {
+  constructor(readonly expectedTriangles: number, readonly availableTriangles: number) {
+    super(
+      'Truncated STL file',
+      `The file ends after ${availableTriangles} of ${expectedTriangles} triangles. ` +
+        'It was probably cut off while copying or downloading, copy or export it again.'
+    );
+    this.name = 'StlTruncatedError';
+  }
+}
+
+export class StlTriangleCountError extends StlParseError {
+  constructor(detail: string) {
+    super(
+      'Triangle count mismatch',
+      `${detail} The exporter wrote an inconsistent file, re-export it from the source application.`
+    );
+    this.name = 'StlTriangleCountError';
+  }
+}
+
+export class StlInvalidVertexError extends StlParseError {
+  constructor(readonly triangleIndex: number) {
+    super(
+      'Invalid vertex coordinates',
+      `Triangle ${triangleIndex + 1} has a NaN or infinite coordinate. ` +
+        'Repair the mesh in your CAD or mesh tool and export it again.'
+    );
+    this.name = 'StlInvalidVertexError';
+  }
+}
+
+export class StlEmptyMeshError extends StlParseError {
+  constructor() {
+    super(
+      'Empty STL file',
+      'The file contains no triangles. Check that the export included the part or selection you wanted.'
+    );
+    this.name = 'StlEmptyMeshError';
+  }
+}
+
+// Work done between yields to the JS event loop, so progress can render
+const BINARY_CHUNK_TRIANGLES = 50000;
+const ASCII_CHUNK_BYTES = 1 << 20;
+
+// Grey of the plain STL material, for facets without a colour of their own
+const PLAIN_COLOR = new THREE.Color(0x6c757d);
+// 5-bit sRGB channel values to linear, vertex colours are linear
+const CHANNEL_TO_LINEAR = Array.from({ length: 32 }, (_, i) => new THREE.Color().setRGB(i / 31, 0, 0, THREE.SRGBColorSpace).r);
+
+export async function parseSTL(
+  buffer: ArrayBuffer,
+  options: { onProgress?: ParseProgress } = {}
+): Promise<{
   geometry: THREE.BufferGeometry;
   format: 'ascii' | 'binary';
   triangleCount: number;
-} {
-  const textDecoder = new TextDecoder();
-  const header = textDecoder.decode(buffer.slice(0, 80)).trim();
-
-  const isASCII = header.startsWith('solid') && !header.includes('binary');
+}> {
+  const isASCII = detectFormat(buffer) === 'ascii';
 
   if (isASCII) {
-    const text = textDecoder.decode(buffer);
-    const { geometry, triangleCount } = parseASCII(text);
+    const { geometry, triangleCount } = await parseASCII(buffer, options.onProgress);
     return {
       geometry,
       format: 'ascii',
       triangleCount,
     };
   } else {
-    const { geometry, triangleCount } = parseBinary(buffer);
+    const { geometry, triangleCount } = await parseBinary(buffer, options.onProgress);
     return {
       geometry,
       format: 'binary',
@@ -28,14 +89,36 @@ export function parseSTL(buffer: ArrayBuffer): {
   }
 }
 
-function parseBinary(buffer: ArrayBuffer): {
+async function parseBinary(buffer: ArrayBuffer, onProgress?: ParseProgress): Promise<{
   geometry: THREE.BufferGeometry;
   triangleCount: number;
-} {
+}> {
+  if (buffer.byteLength < 84) {
+    throw new StlTruncatedError(0, 0);
+  }
   const dv = new DataView(buffer);
   const faces = dv.getUint32(80, true); // triangle count
-  const positions: number[] = [];
-  const normals: number[] = [];
+  const expectedLength = 84 + 50 * faces;
+
+  if (faces === 0) {
+    throw new StlEmptyMeshError();
+  }
+  if (buffer.byteLength < expectedLength) {
+    throw new StlTruncatedError(faces, Math.floor((buffer.byteLength - 84) / 50));
+  }
+  // A few bytes of trailing padding are common, whole extra triangles are not
+  if (buffer.byteLength - expectedLength >= 50) {
+    throw new StlTriangleCountError(
+      `The header declares ${faces} triangles but the file holds ${Math.floor((buffer.byteLength - 84) / 50)}.`
+    );
+  }
+
+  const positions = new Float32Array(faces * 9);
+  const normals = new Float32Array(faces * 9);
+  const header = readHeaderColor(dv);
+  // Magics files colour every facet (own or default), others only once a facet has a colour
+  let colors = header.magics ? new Float32Array(faces * 9) : null;
+  const fallback = header.defaultColor ?? PLAIN_COLOR;
   let offset = 84;
 
   for (let i = 0; i < faces; i++) {
@@ -44,22 +127,66 @@ function parseBinary(buffer: ArrayBuffer): {
     const nz = dv.getFloat32(offset + 8, true);
     offset += 12;
 
-    for (let j = 0; j < 3; j++) {
-      positions.push(
-        dv.getFloat32(offset, true),
-        dv.getFloat32(offset + 4, true),
-        dv.getFloat32(offset + 8, true)
-      );
-      normals.push(nx, ny, nz);
+    const base = i * 9;
+    for (let j = 0; j < 9; j += 3) {
+      const x = dv.getFloat32(offset, true);
+      const y = dv.getFloat32(offset + 4, true);
+      const z = dv.getFloat32(offset + 8, true);
+      if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+        throw new StlInvalidVertexError(i);
+      }
+      positions[base + j] = x;
+      positions[base + j + 1] = y;
+      positions[base + j + 2] = z;
+      normals[base + j] = nx;
+      normals[base + j + 1] = ny;
+      normals[base + j + 2] = nz;
       offset += 12;
     }
 
-    offset += 2; // skip attribute byte count
+    const attribute = dv.getUint16(offset, true);
+    offset += 2;
+    if (header.magics) {
+      // Magics: bit 15 clear means the facet has its own colour, red in the low bits
+      if (attribute & 0x8000) {
+        writeColor(colors!, base, fallback.r, fallback.g, fallback.b);
+      } else {
+        writeColor(
+          colors!,
+          base,
+          CHANNEL_TO_LINEAR[attribute & 0x1f],
+          CHANNEL_TO_LINEAR[(attribute >> 5) & 0x1f],
+          CHANNEL_TO_LINEAR[(attribute >> 10) & 0x1f]
+        );
+      }
+    } else if (attribute & 0x8000) {
+      // VisCAM / SolidView: bit 15 set means the colour is valid, red in the high bits
+      if (!colors) {
+        colors = new Float32Array(faces * 9);
+        for (let k = 0; k < base; k += 9) writeColor(colors, k, fallback.r, fallback.g, fallback.b);
+      }
+      writeColor(
+        colors,
+        base,
+        CHANNEL_TO_LINEAR[(attribute >> 10) & 0x1f],
+        CHANNEL_TO_LINEAR[(attribute >> 5) & 0x1f],
+        CHANNEL_TO_LINEAR[attribute & 0x1f]
+      );
+    } else if (colors) {
+      writeColor(colors, base, fallback.r, fallback.g, fallback.b);
+    }
+
+    if (i % BINARY_CHUNK_TRIANGLES === BINARY_CHUNK_TRIANGLES - 1) {
+      onProgress?.(i / faces);
+      await yieldToUI();
+    }
   }
+  onProgress?.(1);
 
   const geometry = new THREE.BufferGeometry();
-  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  if (colors) geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
 
   return {
     geometry,
@@ -67,34 +194,156 @@ function parseBinary(buffer: ArrayBuffer): {
   };
 }
 
-function parseASCII(text: string): {
+/**
+ * Materialise Magics writes "COLOR=" plus RGBA bytes into the 80-byte header
+ * as the default colour, or "MATERIAL=" plus diffuse, specular and ambient
+ * RGBA, of which the diffuse colour is used. Either marks the Magics
+ * per-facet colour layout.
+ */
+function readHeaderColor(dv: DataView): { magics: boolean; defaultColor: THREE.Color | null } {
+  const header = String.fromCharCode(...new Uint8Array(dv.buffer, dv.byteOffset, 80));
+  for (const key of ['COLOR=', 'MATERIAL=']) {
+    const at = header.indexOf(key);
+    if (at < 0 || at + key.length + 4 > 80) continue;
+    const rgb = at + key.length;
+    const defaultColor = new THREE.Color().setRGB(
+      dv.getUint8(rgb) / 255,
+      dv.getUint8(rgb + 1) / 255,
+      dv.getUint8(rgb + 2) / 255,
+      THREE.SRGBColorSpace
+    );
+    return { magics: true, defaultColor };
+  }
+  return { magics: false, defaultColor: null };
+}
+
+function writeColor(colors: Float32Array, base: number, r: number, g: number, b: number) {
+  for (let j = 0; j < 9; j += 3) {
+    colors[base + j] = r;
+    colors[base + j + 1] = g;
+    colors[base + j + 2] = b;
+  }
+}
+
+/**
+ * Reads ASCII STL line by line, decoding the buffer in chunks that end on a
+ * newline so the whole file is never held as one string.
+ */
+async function parseASCII(buffer: ArrayBuffer, onProgress?: ParseProgress): Promise<{
   geometry: THREE.BufferGeometry;
   triangleCount: number;
-} {
-  const pattern = /facet\s+normal\s+([eE\d\.\+\-]+)\s+([eE\d\.\+\-]+)\s+([eE\d\.\+\-]+)[\s\S]*?vertex\s+([eE\d\.\+\-]+)\s+([eE\d\.\+\-]+)\s+([eE\d\.\+\-]+)[\s\S]*?vertex\s+([eE\d\.\+\-]+)\s+([eE\d\.\+\-]+)\s+([eE\d\.\+\-]+)[\s\S]*?vertex\s+([eE\d\.\+\-]+)\s+([eE\d\.\+\-]+)\s+([eE\d\.\+\-]+)/g;
+}> {
+  const bytes = new Uint8Array(buffer);
+  const textDecoder = new TextDecoder();
 
-  const positions: number[] = [];
-  const normals: number[] = [];
+  // A facet takes roughly 250 bytes of text, grow if the guess is short
+  let capacity = Math.max(Math.ceil(bytes.length / 250), 16) * 9;
+  let positions = new Float32Array(capacity);
+  let normals = new Float32Array(capacity);
+  let length = 0;
   let triangleCount = 0;
+  let facetVertices = 0;
+  let nx = 0;
+  let ny = 0;
+  let nz = 0;
+
+  const ensureCapacity = () => {
+    if (length + 3 <= capacity) return;
+    capacity *= 2;
+    const nextPositions = new Float32Array(capacity);
+    nextPositions.set(positions);
+    positions = nextPositions;
+    const nextNormals = new Float32Array(capacity);
+    nextNormals.set(normals);
+    normals = nextNormals;
+  };
 
-  let result;
-  while ((result = pattern.exec(text)) !== null) {
-    triangleCount++;
-    const normal = result.slice(1, 4).map(Number);
-    const vertices = result.slice(4).map(Number);
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + ASCII_CHUNK_BYTES, bytes.length);
+    if (end < bytes.length) {
+      const newline = bytes.lastIndexOf(0x0a, end);
+      if (newline > start) end = newline + 1;
+    }
 
-    for (let i = 0; i < 3; i++) {
-      positions.push(vertices[i * 3], vertices[i * 3 + 1], vertices[i * 3 + 2]);
-      normals.push(...normal);
+    const lines = textDecoder.decode(bytes.subarray(start, end)).split('\n');
+    for (const raw of lines) {
+      const line = raw.trim();
+      if (line.startsWith('vertex')) {
+        const parts = line.split(/\s+/);
+        const x = parseFloat(parts[1]);
+        const y = parseFloat(parts[2]);
+        const z = parseFloat(parts[3]);
+        if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+          throw new StlInvalidVertexError(triangleCount);
+        }
+        if (++facetVertices > 3) {
+          throw new StlTriangleCountError(`Facet ${triangleCount + 1} has more than 3 vertices.`);
+        }
+        ensureCapacity();
+        positions[length] = x;
+        positions[length + 1] = y;
+        positions[length + 2] = z;
+        normals[length] = nx;
+        normals[length + 1] = ny;
+        normals[length + 2] = nz;
+        length += 3;
+      } else if (line.startsWith('facet')) {
+        const parts = line.split(/\s+/);
+        nx = parseFloat(parts[2]);
+        ny = parseFloat(parts[3]);
+        nz = parseFloat(parts[4]);
+      } else if (line.startsWith('endfacet')) {
+        if (facetVertices !== 3) {
+          throw new StlTriangleCountError(`Facet ${triangleCount + 1} has ${facetVertices} vertices instead of 3.`);
+        }
+        facetVertices = 0;
+        triangleCount++;
+      }
     }
+
+    start = end;
+    onProgress?.(start / bytes.length);
+    await yieldToUI();
+  }
+
+  if (facetVertices !== 0) {
+    throw new StlTruncatedError(triangleCount + 1, triangleCount);
+  }
+  if (triangleCount === 0) {
+    throw new StlEmptyMeshError();
   }
 
   const geometry = new THREE.BufferGeometry();
-  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions.subarray(0, length), 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(normals.subarray(0, length), 3));
 
   return {
     geometry,
     triangleCount,
   };
 }
+
+/**
+ * Many CAD exporters write binary files whose header starts with "solid", so
+ * the header alone is not enough: a binary file's size is fully determined
+ * by its triangle count, and an ASCII file has facet/endsolid keywords.
+ */
+export function detectFormat(buffer: ArrayBuffer): 'ascii' | 'binary' {
+  if (buffer.byteLength >= 84) {
+    const faces = new DataView(buffer).getUint32(80, true);
+    if (84 + 50 * faces === buffer.byteLength) return 'binary';
+  }
+
+  const textDecoder = new TextDecoder();
+  const head = textDecoder.decode(buffer.slice(0, 1024));
+  if (!/^\s*solid/.test(head)) return 'binary';
+  if (/\bfacet\b/.test(head)) return 'ascii';
+
+  const tail = textDecoder.decode(buffer.slice(Math.max(buffer.byteLength - 1024, 0)));
+  return /\bendsolid\b/.test(tail) ? 'ascii' : 'binary';
+}
+
+function yieldToUI() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
@@ -0,0 +1,395 @@
+import * as THREE from 'three';
+import { DeviationResult } from './deviation';
+import { defaultWeldTolerance, weldVertices } from './meshTopology';
+import { readTriangles } from './scene';
+
+export type RenderMode = 'shaded' | 'normals' | 'matcap' | 'xray' | 'curvature';
+export type Shading = 'loaded' | 'flat' | 'smooth';
+
+export const RENDER_MODES: { mode: RenderMode; label: string }[] = [
+  { mode: 'shaded', label: 'Shaded' },
+  { mode: 'normals', label: 'Normals' },
+  { mode: 'matcap', label: 'Matcap' },
+  { mode: 'xray', label: 'X-ray' },
+  { mode: 'curvature', label: 'Curvature' },
+];
+
+export const COLOR_PRESETS = [
+  '#6c757d', '#e3dac9', '#f8f9fa', '#f4c7a1', '#dc3545', '#fd7e14',
+  '#ffc107', '#28a745', '#20c997', '#17a2b8', '#007bff', '#6f42c1',
+];
+
+// Back faces in normals mode, so inverted triangles stand out
+const BACK_FACE_COLOR = 'vec4( 0.8, 0.1, 0.1, diffuseColor.a )';
+const XRAY_OPACITY = 0.25;
+
+function meshesUnder(root: THREE.Object3D) {
+  const meshes: THREE.Mesh[] = [];
+  root.traverse((child: any) => {
+    if (child.isMesh && !child.userData.helper) meshes.push(child);
+  });
+  return meshes;
+}
+
+function materialsOf(material: THREE.Material | THREE.Material[]) {
+  return Array.isArray(material) ? material : [material];
+}
+
+/** The mesh's materials plus any a render mode or the heatmap has put aside. */
+function allMaterials(mesh: THREE.Mesh) {
+  const original = mesh.userData.renderModeOriginal ?? mesh.userData.deviationOriginal?.material;
+  return original ? [...materialsOf(mesh.material), ...materialsOf(original)] : materialsOf(mesh.material);
+}
+
+/**
+ * Shows the normals, matcap and X-ray modes by swapping each mesh's material
+ * for one derived from it; the original is kept in userData. Curvature and
+ * the deviation heatmap colour vertices instead, see `meanCurvature`, and
+ * meshes showing a heatmap are left alone. Returning to 'shaded' hands the
+ * current colour, clipping and wireframe back to the original material.
+ */
+export function applyRenderMode(root: THREE.Object3D, mode: RenderMode) {
+  for (const mesh of meshesUnder(root)) {
+    if (mesh.userData.deviationOriginal) continue;
+    restoreMaterial(mesh);
+    if (mode !== 'normals' && mode !== 'matcap' && mode !== 'xray') continue;
+
+    const originals = materialsOf(mesh.material);
+    const derived = originals.map(original => deriveMaterial(original, mode));
+    mesh.userData.renderModeOriginal = mesh.material;
+    mesh.material = Array.isArray(mesh.material) ? derived : derived[0];
+  }
+}
+
+function restoreMaterial(mesh: THREE.Mesh) {
+  const original = mesh.userData.renderModeOriginal as THREE.Material | THREE.Material[] | undefined;
+  if (!original) return;
+  const derived = materialsOf(mesh.material);
+  materialsOf(original).forEach((m, i) => {
+    const d = derived[i] as THREE.MeshStandardMaterial | undefined;
+    if (!d) return;
+    m.clippingPlanes = d.clippingPlanes;
+    (m as THREE.MeshStandardMaterial).wireframe = d.wireframe;
+    m.userData.layerOwnColor = d.userData.layerOwnColor;
+    const color = (m as THREE.MeshStandardMaterial).color;
+    if (color && d.color && !(d as any).isMeshNormalMaterial) {
+      color.copy(d.color);
+      if (m.vertexColors !== d.vertexColors) {
+        m.vertexColors = d.vertexColors;
+        m.needsUpdate = true;
+      }
+    }
+    d.dispose();
+  });
+  mesh.material = original;
+  delete mesh.userData.renderModeOriginal;
+}
+
+function deriveMaterial(original: THREE.Material, mode: 'normals' | 'matcap' | 'xray'): THREE.Material {
+  const material = createDerivedMaterial(original, mode);
+  // Matcap takes no wireframe parameter, though the renderer honours the flag on any material
+  (material as THREE.MeshStandardMaterial).wireframe = (original as THREE.MeshStandardMaterial).wireframe;
+  // A layer colour set in this mode must be undone on the original too
+  material.userData.layerOwnColor = original.userData.layerOwnColor;
+  material.userData.loadedFlatShading = original.userData.loadedFlatShading;
+  return material;
+}
+
+function createDerivedMaterial(original: THREE.Material, mode: 'normals' | 'matcap' | 'xray'): THREE.Material {
+  const o = original as THREE.MeshStandardMaterial;
+  const common = {
+    clippingPlanes: o.clippingPlanes,
+    flatShading: o.flatShading,
+    side: THREE.DoubleSide,
+  };
+
+  if (mode === 'normals') {
+    const material = new THREE.MeshNormalMaterial(common);
+    material.onBeforeCompile = shader => {
+      shader.fragmentShader = shader.fragmentShader.replace(
+        'gl_FragColor = vec4( packNormalToRGB( normal ), diffuseColor.a );',
+        `gl_FragColor = gl_FrontFacing ? vec4( packNormalToRGB( normal ), diffuseColor.a ) : ${BACK_FACE_COLOR};`
+      );
+    };
+    return material;
+  }
+
+  const color = o.color ? o.color.clone() : new THREE.Color(0xffffff);
+  if (mode === 'matcap') {
+    return new THREE.MeshMatcapMaterial({ ...common, color, map: o.map, vertexColors: o.vertexColors, matcap: matcapTexture() });
+  }
+
+  return new THREE.MeshStandardMaterial({
+    ...common,
+    color,
+    map: o.map,
+    vertexColors: o.vertexColors,
+    metalness: 0,
+    roughness: 1,
+    transparent: true,
+    opacity: XRAY_OPACITY,
+    depthWrite: false,
+  });
+}
+
+let matcap: THREE.DataTexture | null = null;
+
+/** A neutral clay matcap drawn once: key light from the upper left, soft rim. */
+function matcapTexture() {
+  if (matcap) return matcap;
+  const size = 64;
+  const data = new Uint8Array(size * size * 4);
+  const light = new THREE.Vector3(-0.5, 0.6, 0.62).normalize();
+  const n = new THREE.Vector3();
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const nx = ((x + 0.5) / size) * 2 - 1;
+      const ny = ((y + 0.5) / size) * 2 - 1;
+      const r2 = nx * nx + ny * ny;
+      n.set(nx, ny, Math.sqrt(Math.max(1 - r2, 0))).normalize();
+      const diffuse = Math.max(n.dot(light), 0);
+      const specular = Math.pow(Math.max(2 * n.dot(light) * n.z - light.z, 0), 24);
+      const rim = Math.pow(1 - n.z, 3) * 0.25;
+      const value = Math.min(0.18 + 0.72 * diffuse + 0.35 * specular + rim, 1);
+      const o = (y * size + x) * 4;
+      data[o] = Math.round(255 * value);
+      data[o + 1] = Math.round(245 * value);
+      data[o + 2] = Math.round(235 * value);
+      data[o + 3] = 255;
+    }
+  }
+  matcap = new THREE.DataTexture(data, size, size);
+  matcap.colorSpace = THREE.SRGBColorSpace;
+  matcap.needsUpdate = true;
+  return matcap;
+}
+
+/**
+ * Flat shades every triangle on its own, smooth averages normals across
+ * shared corners (welding STL soup by position first), and 'loaded' puts
+ * back what the file came with.
+ */
+export function applyShading(root: THREE.Object3D, shading: Shading) {
+  const seen = new Set<THREE.Material>();
+  for (const mesh of meshesUnder(root)) {
+    // The heatmap's geometry shares its normals with the one it stands in for
+    const geometry: THREE.BufferGeometry = mesh.userData.deviationOriginal?.geometry ?? mesh.geometry;
+    const normal = geometry.getAttribute('normal') as THREE.BufferAttribute | undefined;
+    if (shading === 'smooth' && normal && !geometry.userData.loadedNormals) {
+      geometry.userData.loadedNormals = (normal.array as Float32Array).slice();
+      writeSmoothNormals(geometry);
+    } else if (shading !== 'smooth' && normal && geometry.userData.loadedNormals) {
+      (normal.array as Float32Array).set(geometry.userData.loadedNormals);
+      normal.needsUpdate = true;
+      delete geometry.userData.loadedNormals;
+    }
+
+    for (const material of allMaterials(mesh)) {
+      if (seen.has(material) || (material as THREE.MeshStandardMaterial).flatShading === undefined) continue;
+      seen.add(material);
+      const m = material as THREE.MeshStandardMaterial;
+      // A repair preview flat shades welded soup; what counts as loaded is known once it is kept or undone
+      if (m.userData.repairFlatShading) {
+        delete m.userData.loadedFlatShading;
+        if (shading === 'loaded') continue;
+      }
+      if (m.userData.loadedFlatShading === undefined) m.userData.loadedFlatShading = m.flatShading;
+      const flat = shading === 'flat' || (shading === 'loaded' && m.userData.loadedFlatShading);
+      if (m.flatShading !== flat) {
+        m.flatShading = flat;
+        m.needsUpdate = true;
+      }
+    }
+  }
+}
+
+/** Area-weighted vertex normals over corners welded by position. */
+function writeSmoothNormals(geometry: THREE.BufferGeometry) {
+  if (geometry.index) {
+    geometry.computeVertexNormals();
+    return;
+  }
+  const { corners } = readTriangles(geometry);
+  const { positions, triangles } = weldVertices(corners, defaultWeldTolerance(corners));
+  const sums = new Float32Array(positions.length);
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+  for (let t = 0; t < triangles.length; t += 3) {
+    a.fromArray(corners, t * 3);
+    b.fromArray(corners, t * 3 + 3);
+    c.fromArray(corners, t * 3 + 6);
+    // The cross product's length is twice the area, which gives the weighting
+    c.sub(b).cross(a.sub(b));
+    for (let j = 0; j < 3; j++) {
+      const v = triangles[t + j];
+      sums[v * 3] += c.x;
+      sums[v * 3 + 1] += c.y;
+      sums[v * 3 + 2] += c.z;
+    }
+  }
+  const normal = geometry.getAttribute('normal') as THREE.BufferAttribute;
+  const n = new THREE.Vector3();
+  for (let corner = 0; corner < triangles.length; corner++) {
+    n.fromArray(sums, triangles[corner] * 3).normalize();
+    normal.setXYZ(corner, n.x, n.y, n.z);
+  }
+  normal.needsUpdate = true;
+}
+
+/**
+ * Mean curvature at every vertex of the visible meshes, from the cotangent
+ * Laplacian over corners welded by position: positive where the surface
+ * bulges toward its front side, negative in hollows. Shaped like a
+ * deviation result so the heatmap code can colour it; `max` is the 95th
+ * percentile of the magnitude, a colour range that single spikes at sharp
+ * corners do not wash out.
+ */
+export function meanCurvature(root: THREE.Object3D): DeviationResult {
+  const result: DeviationResult = { meshes: [], min: Infinity, max: -Infinity, mean: 0, rms: 0 };
+  const magnitudes: number[] = [];
+  root.traverseVisible((child: any) => {
+    if (!child.isMesh || child.userData.helper) return;
+    const mesh = child as THREE.Mesh;
+    const { corners } = readTriangles(mesh.geometry);
+    // Closes seams whose copies differ only by rounding
+    const { positions, triangles } = weldVertices(corners, defaultWeldTolerance(corners));
+    const curvature = vertexCurvature(positions, triangles);
+
+    // Back to the geometry's own vertices, through any index
+    const index = mesh.geometry.index;
+    const values = new Float32Array(mesh.geometry.getAttribute('position').count);
+    for (let corner = 0; corner < triangles.length; corner++) {
+      values[index ? index.getX(corner) : corner] = curvature[triangles[corner]];
+    }
+    for (let i = 0; i < values.length; i++) {
+      result.min = Math.min(result.min, values[i]);
+      magnitudes.push(Math.abs(values[i]));
+    }
+    result.meshes.push({ mesh, distances: values });
+  });
+
+  magnitudes.sort((x, y) => x - y);
+  const range = magnitudes.length > 0 ? magnitudes[Math.floor((magnitudes.length - 1) * 0.95)] : 0;
+  result.max = range;
+  result.min = -range;
+  return result;
+}
+
+function vertexCurvature(p: Float32Array, triangles: Uint32Array) {
+  const vertexCount = p.length / 3;
+  const laplacian = new Float64Array(vertexCount * 3);
+  const normals = new Float64Array(vertexCount * 3);
+  const areas = new Float64Array(vertexCount);
+  const e = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const corners = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const cross = new THREE.Vector3();
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    for (let j = 0; j < 3; j++) corners[j].fromArray(p, triangles[t + j] * 3);
+    cross.subVectors(corners[1], corners[0]).cross(e[0].subVectors(corners[2], corners[0]));
+    const doubleArea = cross.length();
+    if (doubleArea === 0) continue;
+
+    for (let j = 0; j < 3; j++) {
+      const v = triangles[t + j];
+      areas[v] += doubleArea / 6;
+      normals[v * 3] += cross.x;
+      normals[v * 3 + 1] += cross.y;
+      normals[v * 3 + 2] += cross.z;
+    }
+    // The angle at corner k weighs the opposite edge i-j
+    for (let k = 0; k < 3; k++) {
+      const i = (k + 1) % 3;
+      const j = (k + 2) % 3;
+      e[1].subVectors(corners[i], corners[k]);
+      e[2].subVectors(corners[j], corners[k]);
+      const cot = e[1].dot(e[2]) / doubleArea;
+      const vi = triangles[t + i];
+      const vj = triangles[t + j];
+      for (let c = 0; c < 3; c++) {
+        const d = cot * (p[vj * 3 + c] - p[vi * 3 + c]);
+        laplacian[vi * 3 + c] += d;
+        laplacian[vj * 3 + c] -= d;
+      }
+    }
+  }
+
+  // Laplace-Beltrami of position is -2 H n
+  const curvature = new Float32Array(vertexCount);
+  for (let v = 0; v < vertexCount; v++) {
+    const length = Math.hypot(normals[v * 3], normals[v * 3 + 1], normals[v * 3 + 2]);
+    if (areas[v] === 0 || length === 0) continue;
+    const dot = (laplacian[v * 3] * normals[v * 3] + laplacian[v * 3 + 1] * normals[v * 3 + 1] + laplacian[v * 3 + 2] * normals[v * 3 + 2]) / length;
+    curvature[v] = -dot / (4 * areas[v]);
+  }
+  return curvature;
+}
+
+/**
+ * Wireframe drawn over the shaded surface: a second mesh per mesh, sharing
+ * its geometry and clipping planes. The surface is pushed back a little so the
+ * lines win the depth test. Build it again after swapping materials or
+ * geometry, or call `syncWireOverlay` for a swap that is undone soon after.
+ */
+export function addWireOverlay(root: THREE.Object3D, color: THREE.ColorRepresentation) {
+  for (const mesh of meshesUnder(root)) {
+    const material = new THREE.MeshBasicMaterial({
+      color,
+      wireframe: true,
+      transparent: true,
+      opacity: 0.6,
+      clippingPlanes: materialsOf(mesh.material)[0].clippingPlanes,
+    });
+    const overlay = new THREE.Mesh(mesh.geometry, material);
+    overlay.userData.helper = true;
+    overlay.userData.wireOverlay = true;
+    overlay.raycast = () => {};
+    mesh.add(overlay);
+    for (const m of allMaterials(mesh)) setPolygonOffset(m, true);
+  }
+}
+
+/** Points each overlay at its mesh's current geometry and clipping planes. */
+export function syncWireOverlay(root: THREE.Object3D) {
+  for (const overlay of wireOverlays(root)) {
+    const mesh = overlay.parent as THREE.Mesh;
+    overlay.geometry = mesh.geometry;
+    (overlay.material as THREE.Material).clippingPlanes = materialsOf(mesh.material)[0].clippingPlanes;
+  }
+}
+
+function wireOverlays(root: THREE.Object3D) {
+  const overlays: THREE.Mesh[] = [];
+  root.traverse(child => {
+    if (child.userData.wireOverlay) overlays.push(child as THREE.Mesh);
+  });
+  return overlays;
+}
+
+export function removeWireOverlay(root: THREE.Object3D) {
+  for (const overlay of wireOverlays(root)) {
+    const parent = overlay.parent as THREE.Mesh;
+    // The geometry is the parent's, only the material is the overlay's own
+    overlay.removeFromParent();
+    (overlay.material as THREE.Material).dispose();
+    for (const m of allMaterials(parent)) setPolygonOffset(m, false);
+  }
+}
+
+function setPolygonOffset(material: THREE.Material, enabled: boolean) {
+  material.polygonOffset = enabled;
+  material.polygonOffsetFactor = enabled ? 1 : 0;
+  material.polygonOffsetUnits = enabled ? 1 : 0;
+}
+
+/** Sets the colour of every material under `root`, including originals kept aside by a render mode. */
+export function applyModelColor(root: THREE.Object3D, color: THREE.ColorRepresentation) {
+  for (const mesh of meshesUnder(root)) {
+    for (const material of allMaterials(mesh)) {
+      if (material.userData.deviation || (material as any).isMeshNormalMaterial) continue;
+      (material as THREE.MeshStandardMaterial).color?.set(color);
+    }
+  }
+  root.traverse((child: any) => {
+    if (child.isPoints && !child.userData.helper) (child.material as THREE.PointsMaterial).color?.set(color);
+  });
+}
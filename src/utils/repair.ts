@@ -0,0 +1,455 @@
+import * as THREE from 'three';
+import { weldVertices } from './meshTopology';
+import { readTriangles, triangleCount, weldableMeshes } from './scene';
+
+export type RepairOptions = {
+  /** Corners closer than this become one vertex, in model units. */
+  weldTolerance: number;
+  /** Boundary loops with more edges than this are left open. */
+  maxHoleEdges: number;
+  /** Shells with fewer triangles than this are deleted. */
+  minShellTriangles: number;
+  /** Closed shells enclosing less than this share of the largest shell's volume are deleted. */
+  minShellVolume: number;
+};
+
+export type RepairReport = {
+  trianglesBefore: number;
+  trianglesAfter: number;
+  /** Corners merged into a shared vertex by welding. */
+  weldedCorners: number;
+  degenerateRemoved: number;
+  duplicatesRemoved: number;
+  /** Triangles turned round to agree with their neighbours or to face outward. */
+  flippedTriangles: number;
+  holesFilled: number;
+  /** Boundary loops left open for being too long or not simple. */
+  holesSkipped: number;
+  shellsRemoved: number;
+  shellTrianglesRemoved: number;
+  /** Left after the repair; both 0 means the result is closed and manifold. */
+  openEdges: number;
+  nonManifoldEdges: number;
+};
+
+export type Repair = {
+  meshes: { mesh: THREE.Mesh; original: THREE.BufferGeometry; repaired: THREE.BufferGeometry }[];
+  report: RepairReport;
+};
+
+const EMPTY_REPORT: RepairReport = {
+  trianglesBefore: 0,
+  trianglesAfter: 0,
+  weldedCorners: 0,
+  degenerateRemoved: 0,
+  duplicatesRemoved: 0,
+  flippedTriangles: 0,
+  holesFilled: 0,
+  holesSkipped: 0,
+  shellsRemoved: 0,
+  shellTrianglesRemoved: 0,
+  openEdges: 0,
+  nonManifoldEdges: 0,
+};
+
+/**
+ * Repairs every weldable mesh under `root` and swaps the result in. The
+ * original geometry is kept until `finishRepair`; the report adds up all
+ * meshes.
+ */
+export function repairObject(root: THREE.Object3D, options: RepairOptions): Repair {
+  const meshes = weldableMeshes(root);
+  if (meshes.length === 0) throw new Error('There are no untextured triangle meshes to repair.');
+
+  const result: Repair = { meshes: [], report: { ...EMPTY_REPORT } };
+  for (const mesh of meshes) {
+    const original = mesh.geometry;
+    const { geometry, report } = repairGeometry(original, options);
+    result.meshes.push({ mesh, original, repaired: geometry });
+    mesh.geometry = geometry;
+    for (const key of Object.keys(report) as (keyof RepairReport)[]) result.report[key] += report[key];
+
+    // Soup had STL's faceted look from per-corner normals; shared vertices need it from the material
+    if (original.index) continue;
+    const materials: THREE.Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    for (const material of materials) {
+      const m = material as THREE.MeshStandardMaterial;
+      if (m.flatShading !== undefined && !m.flatShading) {
+        m.flatShading = true;
+        m.userData.repairFlatShading = true;
+        m.needsUpdate = true;
+      }
+    }
+  }
+  return result;
+}
+
+/** Settles on one version of each mesh and frees the other. */
+export function finishRepair(repair: Repair, keep: 'original' | 'repaired') {
+  for (const { mesh, original, repaired } of repair.meshes) {
+    mesh.geometry = keep === 'repaired' ? repaired : original;
+    (keep === 'repaired' ? original : repaired).dispose();
+    const materials: THREE.Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    for (const material of materials) {
+      if (!material.userData.repairFlatShading) continue;
+      delete material.userData.repairFlatShading;
+      if (keep === 'original') {
+        (material as THREE.MeshStandardMaterial).flatShading = false;
+        material.needsUpdate = true;
+      }
+    }
+  }
+}
+
+/**
+ * Turns a triangle mesh into clean indexed geometry, in this order: welds
+ * corners within the tolerance, drops collapsed and repeated triangles,
+ * orients each edge-connected shell consistently and outward, deletes small
+ * shells, closes short boundary loops with a fan around their centre, and
+ * recomputes smooth vertex normals. Colours and material groups are kept.
+ */
+export function repairGeometry(geometry: THREE.BufferGeometry, options: RepairOptions): {
+  geometry: THREE.BufferGeometry;
+  report: RepairReport;
+} {
+  const input = readTriangles(geometry);
+  const report: RepairReport = { ...EMPTY_REPORT, trianglesBefore: triangleCount(geometry) };
+  const welded = weldVertices(input.corners, options.weldTolerance);
+  const positions: number[] = Array.from(welded.positions);
+  const vertexCount = welded.positions.length / 3;
+  report.weldedCorners = input.corners.length / 3 - vertexCount;
+
+  // A welded vertex takes the colour of the first corner that created it
+  const colors: number[] | null = input.colors ? [] : null;
+  if (colors && input.colors) {
+    for (const corner of welded.sources) colors.push(input.colors[corner * 3], input.colors[corner * 3 + 1], input.colors[corner * 3 + 2]);
+  }
+
+  // Collapsed and repeated triangles; repeats are found by their two lowest
+  // vertices, then compared on the third
+  let faces: number[] = [];
+  let groups: number[] = [];
+  const areaEpsilon = options.weldTolerance * options.weldTolerance;
+  const seen = new Map<number, number[]>();
+  for (let t = 0; t < welded.triangles.length / 3; t++) {
+    const a = welded.triangles[t * 3], b = welded.triangles[t * 3 + 1], c = welded.triangles[t * 3 + 2];
+    if (a === b || b === c || a === c || triangleArea(positions, a, b, c) <= areaEpsilon) {
+      report.degenerateRemoved++;
+      continue;
+    }
+    const [x, y, z] = [a, b, c].sort((i, j) => i - j);
+    const key = x * vertexCount + y;
+    const thirds = seen.get(key);
+    if (thirds?.includes(z)) {
+      report.duplicatesRemoved++;
+      continue;
+    }
+    if (thirds) thirds.push(z);
+    else seen.set(key, [z]);
+    faces.push(a, b, c);
+    groups.push(input.groups ? input.groups[t] : 0);
+  }
+
+  let topology = buildTopology(faces, positions.length / 3);
+  const orientation = orient(faces, positions, topology);
+  report.flippedTriangles = orientation.flipped;
+  // Flipping swaps corners, so the half-edges no longer line up with the old
+  // pairing; the shells, and so their labels, stay the same
+  if (orientation.flipped > 0) topology = buildTopology(faces, positions.length / 3);
+
+  // Small shells; the volume test needs the orientation settled first, and
+  // open shells enclose nothing to measure
+  const { shellOf, shellCount } = topology;
+  const shellTriangles = new Array(shellCount).fill(0);
+  const shellVolume = new Array(shellCount).fill(0);
+  for (let t = 0; t < faces.length / 3; t++) {
+    shellTriangles[shellOf[t]]++;
+    shellVolume[shellOf[t]] += signedVolume(positions, faces[t * 3], faces[t * 3 + 1], faces[t * 3 + 2]);
+  }
+  let largest = 0;
+  let largestVolume = 0;
+  for (let s = 0; s < shellCount; s++) {
+    if (shellTriangles[s] > shellTriangles[largest]) largest = s;
+    if (!orientation.open[s]) largestVolume = Math.max(largestVolume, Math.abs(shellVolume[s]));
+  }
+  const keepShell = shellTriangles.map((count, s) =>
+    count >= options.minShellTriangles &&
+    (orientation.open[s] === 1 || Math.abs(shellVolume[s]) >= options.minShellVolume * largestVolume)
+  );
+  // Never delete everything: the shell with the most triangles stays
+  if (shellCount > 0 && !keepShell.some(Boolean)) keepShell[largest] = true;
+  report.shellsRemoved = keepShell.filter(keep => !keep).length;
+  if (report.shellsRemoved > 0) {
+    const keptFaces: number[] = [];
+    const keptGroups: number[] = [];
+    for (let t = 0; t < faces.length / 3; t++) {
+      if (!keepShell[shellOf[t]]) {
+        report.shellTrianglesRemoved++;
+        continue;
+      }
+      keptFaces.push(faces[t * 3], faces[t * 3 + 1], faces[t * 3 + 2]);
+      keptGroups.push(groups[t]);
+    }
+    faces = keptFaces;
+    groups = keptGroups;
+    topology = buildTopology(faces, positions.length / 3);
+  }
+
+  const holes = fillHoles(faces, groups, positions, colors, topology, options.maxHoleEdges);
+  report.holesFilled = holes.filled;
+  report.holesSkipped = holes.skipped;
+
+  const edges = buildTopology(faces, positions.length / 3);
+  for (let e = 0; e < edges.mate.length; e++) {
+    if (edges.mate[e] === OPEN) report.openEdges++;
+    else if (edges.mate[e] === NON_MANIFOLD) report.nonManifoldEdges++;
+  }
+  report.trianglesAfter = faces.length / 3;
+
+  return { geometry: buildGeometry(faces, groups, positions, colors, input.groups !== null), report };
+}
+
+// Half-edge mates: the opposite half-edge, or one of these
+const OPEN = -1;
+const NON_MANIFOLD = -2;
+
+/**
+ * Pairs up the half-edges of the triangles (half-edge t*3+j runs from corner
+ * j to corner j+1) and labels the shells connected through manifold edges.
+ */
+function buildTopology(faces: number[], vertexCount: number) {
+  const halfEdges = faces.length;
+  const mate = new Int32Array(halfEdges).fill(OPEN);
+  const first = new Map<number, number>();
+  for (let h = 0; h < halfEdges; h++) {
+    const a = faces[h];
+    const b = faces[h - (h % 3) + ((h + 1) % 3)];
+    const key = a < b ? a * vertexCount + b : b * vertexCount + a;
+    const other = first.get(key);
+    if (other === undefined) {
+      first.set(key, h);
+    } else if (mate[other] === OPEN) {
+      mate[other] = h;
+      mate[h] = other;
+    } else {
+      // A third triangle on the edge: none of them count as neighbours there
+      if (mate[other] >= 0) mate[mate[other]] = NON_MANIFOLD;
+      mate[other] = NON_MANIFOLD;
+      mate[h] = NON_MANIFOLD;
+    }
+  }
+
+  const triangles = faces.length / 3;
+  const shellOf = new Int32Array(triangles).fill(-1);
+  let shellCount = 0;
+  const stack: number[] = [];
+  for (let seed = 0; seed < triangles; seed++) {
+    if (shellOf[seed] >= 0) continue;
+    shellOf[seed] = shellCount;
+    stack.push(seed);
+    while (stack.length > 0) {
+      const t = stack.pop()!;
+      for (let j = 0; j < 3; j++) {
+        const m = mate[t * 3 + j];
+        if (m < 0) continue;
+        const u = Math.floor(m / 3);
+        if (shellOf[u] >= 0) continue;
+        shellOf[u] = shellCount;
+        stack.push(u);
+      }
+    }
+    shellCount++;
+  }
+  return { mate, shellOf, shellCount };
+}
+
+/**
+ * Flips triangles so neighbours traverse shared edges in opposite
+ * directions, spreading from one triangle per shell. A closed shell then
+ * faces outward, so that it encloses positive volume; an open one has no
+ * outside and keeps the orientation most of its triangles had. Returns how
+ * many triangles changed and which shells are open.
+ */
+function orient(faces: number[], positions: number[], topology: ReturnType<typeof buildTopology>) {
+  const { mate, shellOf, shellCount } = topology;
+  const triangles = faces.length / 3;
+  const flip = new Uint8Array(triangles);
+  const visited = new Uint8Array(triangles);
+  const stack: number[] = [];
+
+  for (let seed = 0; seed < triangles; seed++) {
+    if (visited[seed]) continue;
+    visited[seed] = 1;
+    stack.push(seed);
+    while (stack.length > 0) {
+      const t = stack.pop()!;
+      for (let j = 0; j < 3; j++) {
+        const h = t * 3 + j;
+        const m = mate[h];
+        if (m < 0) continue;
+        const u = Math.floor(m / 3);
+        if (visited[u]) continue;
+        // Same direction on both sides means exactly one of the two is backwards
+        const same = faces[h] === faces[m];
+        flip[u] = flip[t] ^ (same ? 1 : 0);
+        visited[u] = 1;
+        stack.push(u);
+      }
+    }
+  }
+
+  const volume = new Float64Array(shellCount);
+  const open = new Uint8Array(shellCount);
+  const votes = new Int32Array(shellCount);
+  for (let t = 0; t < triangles; t++) {
+    if (flip[t]) swapCorners(faces, t);
+    const s = shellOf[t];
+    volume[s] += signedVolume(positions, faces[t * 3], faces[t * 3 + 1], faces[t * 3 + 2]);
+    votes[s] += flip[t] ? 1 : -1;
+    if (mate[t * 3] < 0 || mate[t * 3 + 1] < 0 || mate[t * 3 + 2] < 0) open[s] = 1;
+  }
+  let flipped = 0;
+  for (let t = 0; t < triangles; t++) {
+    const s = shellOf[t];
+    if (open[s] ? votes[s] > 0 : volume[s] < 0) {
+      swapCorners(faces, t);
+      flip[t] ^= 1;
+    }
+    flipped += flip[t];
+  }
+  return { flipped, open };
+}
+
+/**
+ * Closes boundary loops of up to `maxEdges` edges: a triangle as is, longer
+ * loops with a fan around a new vertex at their centre. Loops through a
+ * vertex shared by several boundaries are left alone.
+ */
+function fillHoles(
+  faces: number[],
+  groups: number[],
+  positions: number[],
+  colors: number[] | null,
+  topology: ReturnType<typeof buildTopology>,
+  maxEdges: number
+) {
+  // Boundary half-edges run along their triangle; the filling runs against them
+  const next = new Map<number, number>();
+  const groupAt = new Map<number, number>();
+  const pinched = new Set<number>();
+  for (let h = 0; h < topology.mate.length; h++) {
+    if (topology.mate[h] !== OPEN) continue;
+    const a = faces[h];
+    const b = faces[h - (h % 3) + ((h + 1) % 3)];
+    if (next.has(a)) pinched.add(a);
+    next.set(a, b);
+    groupAt.set(a, groups[Math.floor(h / 3)]);
+  }
+
+  let filled = 0;
+  let skipped = 0;
+  const done = new Set<number>();
+  for (const start of next.keys()) {
+    if (done.has(start)) continue;
+    const loop: number[] = [];
+    let v = start;
+    let simple = true;
+    while (!done.has(v)) {
+      done.add(v);
+      loop.push(v);
+      if (pinched.has(v)) simple = false;
+      const n = next.get(v);
+      if (n === undefined) {
+        simple = false;
+        break;
+      }
+      v = n;
+    }
+    if (!simple || v !== start || loop.length < 3 || loop.length > maxEdges) {
+      skipped++;
+      continue;
+    }
+
+    const group = groupAt.get(start) ?? 0;
+    if (loop.length === 3) {
+      faces.push(loop[0], loop[2], loop[1]);
+      groups.push(group);
+    } else {
+      const center = positions.length / 3;
+      const sum = [0, 0, 0];
+      const colorSum = [0, 0, 0];
+      for (const p of loop) {
+        for (let k = 0; k < 3; k++) {
+          sum[k] += positions[p * 3 + k];
+          if (colors) colorSum[k] += colors[p * 3 + k];
+        }
+      }
+      positions.push(sum[0] / loop.length, sum[1] / loop.length, sum[2] / loop.length);
+      if (colors) colors.push(colorSum[0] / loop.length, colorSum[1] / loop.length, colorSum[2] / loop.length);
+      for (let i = 0; i < loop.length; i++) {
+        faces.push(loop[(i + 1) % loop.length], loop[i], center);
+        groups.push(group);
+      }
+    }
+    filled++;
+  }
+  return { filled, skipped };
+}
+
+/** Indexed geometry of the used vertices, triangles sorted by material group when there are groups. */
+function buildGeometry(faces: number[], groups: number[], positions: number[], colors: number[] | null, grouped: boolean) {
+  const order = Array.from({ length: faces.length / 3 }, (_, t) => t);
+  if (grouped) order.sort((a, b) => groups[a] - groups[b]);
+
+  const remap = new Int32Array(positions.length / 3).fill(-1);
+  const index: number[] = [];
+  const outPositions: number[] = [];
+  const outColors: number[] = [];
+  for (const t of order) {
+    for (let j = 0; j < 3; j++) {
+      const v = faces[t * 3 + j];
+      if (remap[v] < 0) {
+        remap[v] = outPositions.length / 3;
+        outPositions.push(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]);
+        if (colors) outColors.push(colors[v * 3], colors[v * 3 + 1], colors[v * 3 + 2]);
+      }
+      index.push(remap[v]);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(outPositions, 3));
+  if (colors) geometry.setAttribute('color', new THREE.Float32BufferAttribute(outColors, 3));
+  geometry.setIndex(index);
+  if (grouped) {
+    let start = 0;
+    for (let i = 1; i <= order.length; i++) {
+      if (i === order.length || groups[order[i]] !== groups[order[start]]) {
+        geometry.addGroup(start * 3, (i - start) * 3, groups[order[start]]);
+        start = i;
+      }
+    }
+  }
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+function swapCorners(faces: number[], t: number) {
+  const b = faces[t * 3 + 1];
+  faces[t * 3 + 1] = faces[t * 3 + 2];
+  faces[t * 3 + 2] = b;
+}
+
+function triangleArea(p: number[], a: number, b: number, c: number) {
+  const ux = p[b * 3] - p[a * 3], uy = p[b * 3 + 1] - p[a * 3 + 1], uz = p[b * 3 + 2] - p[a * 3 + 2];
+  const vx = p[c * 3] - p[a * 3], vy = p[c * 3 + 1] - p[a * 3 + 1], vz = p[c * 3 + 2] - p[a * 3 + 2];
+  return Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx) / 2;
+}
+
+/** Volume of the tetrahedron from the origin, positive when the triangle faces away from it. */
+function signedVolume(p: number[], a: number, b: number, c: number) {
+  const ax = p[a * 3], ay = p[a * 3 + 1], az = p[a * 3 + 2];
+  const bx = p[b * 3], by = p[b * 3 + 1], bz = p[b * 3 + 2];
+  const cx = p[c * 3], cy = p[c * 3 + 1], cz = p[c * 3 + 2];
+  return (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+}
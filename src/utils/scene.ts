@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+
+export function forEachMaterial(object: THREE.Object3D, fn: (material: THREE.Material, owner: THREE.Mesh | THREE.Points) => void) {
+  object.traverse((child: any) => {
+    if ((!child.isMesh && !child.isPoints) || child.userData.helper) return;
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+    materials.forEach(material => fn(material, child));
+  });
+}
+
+/** Whether any drawable under `object` carries per-vertex colours from the file. */
+export function hasVertexColors(object: THREE.Object3D) {
+  let found = false;
+  forEachMaterial(object, (_, owner) => {
+    if (owner.geometry.hasAttribute('color')) found = true;
+  });
+  return found;
+}
+
+// Grey used by the loaders for meshes without colours
+const PLAIN_COLOR = 0x6c757d;
+
+/**
+ * Switches between the file's vertex colours and a plain material. The tint
+ * shown with vertex colours (white unless recoloured) is kept on the material
+ * while the plain grey is shown.
+ */
+export function setVertexColorsEnabled(object: THREE.Object3D, enabled: boolean) {
+  const seen = new Set<THREE.Material>();
+  forEachMaterial(object, (material, owner) => {
+    if (!owner.geometry.hasAttribute('color') || seen.has(material) || material.vertexColors === enabled) return;
+    if (material.userData.deviation) return;
+    seen.add(material);
+    const color = (material as THREE.MeshStandardMaterial).color;
+    if (color) {
+      if (enabled) {
+        color.setHex(material.userData.vertexColorTint ?? 0xffffff);
+      } else {
+        material.userData.vertexColorTint = color.getHex();
+        color.setHex(PLAIN_COLOR);
+      }
+    }
+    material.vertexColors = enabled;
+    material.needsUpdate = true;
+  });
+}
+
+/**
+ * The visible meshes under `root` whose corners can be welded and rebuilt,
+ * as simplification and repair do. Textured meshes are left out: welding
+ * across UV seams would tear the texture.
+ */
+export function weldableMeshes(root: THREE.Object3D) {
+  const meshes: THREE.Mesh[] = [];
+  root.traverseVisible((child: any) => {
+    if (!child.isMesh || child.userData.helper) return;
+    const materials = Array.isArray(child.material) ? child.material : [child.material];
+    if (materials.some((m: THREE.MeshStandardMaterial) => m.map)) return;
+    meshes.push(child);
+  });
+  return meshes;
+}
+
+export function triangleCount(geometry: THREE.BufferGeometry) {
+  return (geometry.index ? geometry.index.count : geometry.getAttribute('position').count) / 3;
+}
+
+/** Corners, per-corner colours and per-triangle material group of any triangle geometry. */
+export function readTriangles(geometry: THREE.BufferGeometry) {
+  const position = geometry.getAttribute('position');
+  const color = geometry.getAttribute('color');
+  const index = geometry.index;
+  const count = triangleCount(geometry) * 3;
+  const corners = new Float32Array(count * 3);
+  const colors = color ? new Float32Array(count * 3) : null;
+  const groups = new Int32Array(count / 3);
+
+  for (let c = 0; c < count; c++) {
+    const v = index ? index.getX(c) : c;
+    corners[c * 3] = position.getX(v);
+    corners[c * 3 + 1] = position.getY(v);
+    corners[c * 3 + 2] = position.getZ(v);
+    if (colors && color) {
+      colors[c * 3] = color.getX(v);
+      colors[c * 3 + 1] = color.getY(v);
+      colors[c * 3 + 2] = color.getZ(v);
+    }
+  }
+  for (const group of geometry.groups) {
+    const end = Math.min(group.start + group.count, count);
+    for (let c = group.start; c < end; c += 3) groups[c / 3] = group.materialIndex ?? 0;
+  }
+  return { corners, colors, groups: geometry.groups.length > 0 ? groups : null, indexed: index !== null };
+}
+
+/**
+ * Triangle corners of every visible mesh under `root`, 9 floats per triangle,
+ * with each mesh's transform relative to `frame` (by default `root`) baked in.
+ * Overlay objects flagged with `userData.helper` are skipped.
+ */
+export function collectTriangles(root: THREE.Object3D, frame: THREE.Object3D = root): Float32Array {
+  frame.updateWorldMatrix(true, true);
+  root.updateWorldMatrix(true, true);
+  const rootInverse = frame.matrixWorld.clone().invert();
+
+  const meshes: THREE.Mesh[] = [];
+  let total = 0;
+  // Hidden layers hide everything below them
+  root.traverseVisible((child: any) => {
+    if (!child.isMesh || child.userData.helper) return;
+    const geometry = child.geometry as THREE.BufferGeometry;
+    total += geometry.index ? geometry.index.count : geometry.getAttribute('position').count;
+    meshes.push(child);
+  });
+
+  const out = new Float32Array(total * 3);
+  const v = new THREE.Vector3();
+  const matrix = new THREE.Matrix4();
+  let o = 0;
+
+  for (const mesh of meshes) {
+    matrix.multiplyMatrices(rootInverse, mesh.matrixWorld);
+    const geometry = mesh.geometry as THREE.BufferGeometry;
+    const position = geometry.getAttribute('position');
+    const index = geometry.index;
+    const count = index ? index.count : position.count;
+    // A mirroring transform turns the triangles inside out unless two corners swap
+    const mirrored = matrix.determinant() < 0;
+
+    for (let i = 0; i < count; i++) {
+      v.fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(matrix);
+      const corner = mirrored && i % 3 !== 0 ? i + (i % 3 === 1 ? 1 : -1) : i;
+      out[o + corner * 3] = v.x;
+      out[o + corner * 3 + 1] = v.y;
+      out[o + corner * 3 + 2] = v.z;
+    }
+    o += count * 3;
+  }
+  return out;
+}
+
+/** Bounding box of the visible meshes and points under `root`, in `root`'s own frame. */
+export function localBounds(root: THREE.Object3D): THREE.Box3 {
+  root.updateWorldMatrix(true, true);
+  const rootInverse = root.matrixWorld.clone().invert();
+  const box = new THREE.Box3();
+  const part = new THREE.Box3();
+  const matrix = new THREE.Matrix4();
+
+  root.traverseVisible((child: any) => {
+    if ((!child.isMesh && !child.isPoints) || child.userData.helper) return;
+    const geometry = child.geometry as THREE.BufferGeometry;
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    matrix.multiplyMatrices(rootInverse, child.matrixWorld);
+    box.union(part.copy(geometry.boundingBox!).applyMatrix4(matrix));
+  });
+  return box;
+}
+
+export function fitCameraToObject(camera: THREE.PerspectiveCamera, object: THREE.Object3D) {
+  const { center, distance: cameraZ } = fitDistance(camera, object);
+  camera.position.set(center.x, center.y, center.z + cameraZ);
+  camera.lookAt(center);
+
+  camera.near = cameraZ / 100;
+  camera.far = cameraZ * 100;
+  camera.updateProjectionMatrix();
+}
+
+/** Centre of `object` and how far away the camera must be to frame it with some margin. */
+export function fitDistance(camera: THREE.PerspectiveCamera, object: THREE.Object3D) {
+  const box = new THREE.Box3().setFromObject(object);
+  const size = new THREE.Vector3();
+  box.getSize(size);
+  const center = new THREE.Vector3();
+  box.getCenter(center);
+
+  const maxDim = Math.max(size.x, size.y, size.z);
+  const fov = camera.fov * (Math.PI / 180);
+  const distance = Math.abs(maxDim / (2 * Math.tan(fov / 2)));
+  return { center, distance: distance * 1.5 };
+}
+
+/** Detaches an overlay and frees its geometry. */
+export function removeOverlay(overlay: THREE.Object3D) {
+  overlay.removeFromParent();
+  overlay.traverse((child: any) => child.geometry?.dispose());
+}
@@ -0,0 +1,234 @@
+import * as THREE from 'three';
+import { weldVertices, defaultWeldTolerance } from './meshTopology';
+
+export type SectionAxis = 'x' | 'y' | 'z' | 'custom';
+
+export type SectionPlane = {
+  axis: SectionAxis;
+  position: number; // 0..1 across the model's extent along the normal
+  azimuth: number; // degrees around Y, custom axis only
+  elevation: number; // degrees above the XZ plane, custom axis only
+  flipped: boolean; // keep the side the normal points to instead of the other one
+};
+
+export const SECTION_COLORS = ['#e83e8c', '#20c997', '#6f42c1'];
+
+export function defaultSectionPlane(axis: SectionAxis = 'x'): SectionPlane {
+  return { axis, position: 0.5, azimuth: 30, elevation: 30, flipped: false };
+}
+
+export function sectionNormal(section: SectionPlane): THREE.Vector3 {
+  switch (section.axis) {
+    case 'x': return new THREE.Vector3(1, 0, 0);
+    case 'y': return new THREE.Vector3(0, 1, 0);
+    case 'z': return new THREE.Vector3(0, 0, 1);
+    default: {
+      const az = THREE.MathUtils.degToRad(section.azimuth);
+      const el = THREE.MathUtils.degToRad(section.elevation);
+      return new THREE.Vector3(Math.cos(el) * Math.sin(az), Math.sin(el), Math.cos(el) * Math.cos(az));
+    }
+  }
+}
+
+/**
+ * The clipping plane for a section in the frame `bounds` was measured in.
+ * Three.js keeps fragments on the positive side of a clipping plane, so by
+ * default the normal is reversed and the part beyond the cut is removed.
+ */
+export function sectionToPlane(section: SectionPlane, bounds: THREE.Box3): THREE.Plane {
+  const normal = sectionNormal(section);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < 8; i++) {
+    const d = normal.dot(new THREE.Vector3(
+      i & 1 ? bounds.max.x : bounds.min.x,
+      i & 2 ? bounds.max.y : bounds.min.y,
+      i & 4 ? bounds.max.z : bounds.min.z
+    ));
+    min = Math.min(min, d);
+    max = Math.max(max, d);
+  }
+  const distance = THREE.MathUtils.lerp(min, max, section.position);
+  return section.flipped
+    ? new THREE.Plane(normal, -distance)
+    : new THREE.Plane(normal.negate(), distance);
+}
+
+/** Moves object-local planes into world space, for the renderer's clipping. */
+export function updateWorldPlanes(local: THREE.Plane[], world: THREE.Plane[], object: THREE.Object3D) {
+  object.updateWorldMatrix(true, false);
+  local.forEach((plane, i) => world[i]?.copy(plane).applyMatrix4(object.matrixWorld));
+}
+
+/**
+ * Intersects a triangle soup (9 floats per triangle) with a plane and returns
+ * the cut as line segments, 6 floats each.
+ */
+export function sliceTriangles(corners: Float32Array, plane: THREE.Plane): Float32Array {
+  const out: number[] = [];
+  const { x: nx, y: ny, z: nz } = plane.normal;
+  const d = new Float64Array(3);
+
+  for (let t = 0; t < corners.length; t += 9) {
+    let above = 0;
+    for (let k = 0; k < 3; k++) {
+      const o = t + k * 3;
+      // Vertices exactly on the plane count as above, so each edge crosses at most once
+      d[k] = nx * corners[o] + ny * corners[o + 1] + nz * corners[o + 2] + plane.constant;
+      if (d[k] >= 0) above++;
+    }
+    if (above === 0 || above === 3) continue;
+
+    for (let k = 0; k < 3; k++) {
+      const j = (k + 1) % 3;
+      if ((d[k] >= 0) === (d[j] >= 0)) continue;
+      const s = d[k] / (d[k] - d[j]);
+      const a = t + k * 3;
+      const b = t + j * 3;
+      out.push(
+        corners[a] + (corners[b] - corners[a]) * s,
+        corners[a + 1] + (corners[b + 1] - corners[a + 1]) * s,
+        corners[a + 2] + (corners[b + 2] - corners[a + 2]) * s
+      );
+    }
+  }
+  return new Float32Array(out);
+}
+
+/**
+ * Chains cut segments into polylines. Closed loops can be filled, open
+ * chains come from holes in the mesh and are only outlined.
+ */
+export function chainSegments(segments: Float32Array): { loops: THREE.Vector3[][]; open: THREE.Vector3[][] } {
+  const loops: THREE.Vector3[][] = [];
+  const open: THREE.Vector3[][] = [];
+  if (segments.length === 0) return { loops, open };
+
+  const { positions, triangles: ends } = weldVertices(segments, defaultWeldTolerance(segments) * 10);
+  const vertexCount = positions.length / 3;
+  const neighbours: number[][] = Array.from({ length: vertexCount }, () => []);
+  const segmentCount = ends.length / 2;
+  for (let s = 0; s < segmentCount; s++) {
+    const a = ends[s * 2];
+    const b = ends[s * 2 + 1];
+    if (a === b) continue;
+    neighbours[a].push(s);
+    neighbours[b].push(s);
+  }
+
+  const used = new Uint8Array(segmentCount);
+  const point = (v: number) => new THREE.Vector3(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]);
+  const walk = (start: number, chain: number[]) => {
+    let v = start;
+    for (;;) {
+      const s = neighbours[v].find(n => !used[n]);
+      if (s === undefined) return v;
+      used[s] = 1;
+      v = ends[s * 2] === v ? ends[s * 2 + 1] : ends[s * 2];
+      chain.push(v);
+    }
+  };
+
+  // Start open chains at their dangling ends first so they are walked in one piece
+  const order = [...Array(vertexCount).keys()].sort((a, b) => (neighbours[b].length % 2) - (neighbours[a].length % 2));
+  for (const start of order) {
+    while (neighbours[start].some(n => !used[n])) {
+      const chain = [start];
+      const end = walk(start, chain);
+      if (end === start && chain.length > 3) {
+        loops.push(chain.slice(0, -1).map(point));
+      } else {
+        open.push(chain.map(point));
+      }
+    }
+  }
+  return { loops, open };
+}
+
+/**
+ * Fills closed cut loops with triangles. Loops are projected onto the plane
+ * and nested by containment: even depth is solid, odd depth is a cavity.
+ */
+export function triangulateLoops(loops: THREE.Vector3[][], plane: THREE.Plane): THREE.BufferGeometry | null {
+  if (loops.length === 0) return null;
+
+  const u = new THREE.Vector3();
+  const v = new THREE.Vector3();
+  u.copy(Math.abs(plane.normal.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0))
+    .cross(plane.normal)
+    .normalize();
+  v.crossVectors(plane.normal, u);
+
+  const flat = loops.map(loop => loop.map(p => new THREE.Vector2(p.dot(u), p.dot(v))));
+  const depth = flat.map((loop, i) =>
+    flat.reduce((n, other, j) => (j !== i && pointInPolygon(loop[0], other) ? n + 1 : n), 0)
+  );
+
+  const positions: number[] = [];
+  flat.forEach((contour, i) => {
+    if (depth[i] % 2 !== 0) return;
+    // Holes are the loops one level deeper that sit inside this contour
+    const holeIndices = flat
+      .map((_, j) => j)
+      .filter(j => depth[j] === depth[i] + 1 && pointInPolygon(flat[j][0], contour));
+
+    const holes = holeIndices.map(j => flat[j]);
+    const points = [...loops[i], ...holeIndices.flatMap(j => loops[j])];
+    THREE.ShapeUtils.triangulateShape(contour, holes).forEach(face => {
+      face.forEach(index => positions.push(points[index].x, points[index].y, points[index].z));
+    });
+  });
+
+  if (positions.length === 0) return null;
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(positions), 3));
+  return geometry;
+}
+
+function pointInPolygon(p: THREE.Vector2, polygon: THREE.Vector2[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Solid cap and outline for one section plane, in the same frame as
+ * `corners`. `clipBy` are the other sections' world planes, so a cap is
+ * trimmed where another plane has removed the model.
+ */
+export function buildSectionOverlay(
+  corners: Float32Array,
+  plane: THREE.Plane,
+  clipBy: THREE.Plane[],
+  color: string
+): THREE.Group {
+  const group = new THREE.Group();
+  group.userData.helper = true;
+
+  const { loops, open } = chainSegments(sliceTriangles(corners, plane));
+
+  const cap = triangulateLoops(loops, plane);
+  if (cap) {
+    const mesh = new THREE.Mesh(
+      cap,
+      new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide, clippingPlanes: clipBy })
+    );
+    mesh.userData.helper = true;
+    group.add(mesh);
+  }
+
+  const outline = new THREE.LineBasicMaterial({ color: '#212529', clippingPlanes: clipBy });
+  [...loops.map(loop => [...loop, loop[0]]), ...open].forEach(points => {
+    const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), outline);
+    line.renderOrder = 1;
+    line.userData.helper = true;
+    group.add(line);
+  });
+  return group;
+}
@@ -0,0 +1,58 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { useEffect, useState } from 'react';
+
+const SETTINGS_FILE = 'settings.json';
+
+type Settings = Record<string, unknown>;
+
+let cache: Settings | null = null;
+let pending: Promise<Settings> | null = null;
+const listeners = new Set<() => void>();
+
+/** App-wide preferences, read once from the document directory. */
+export function loadSettings(): Promise<Settings> {
+  if (cache) return Promise.resolve(cache);
+  pending ??= (async () => {
+    try {
+      const uri = FileSystem.documentDirectory + SETTINGS_FILE;
+      const info = await FileSystem.getInfoAsync(uri);
+      cache = info.exists ? JSON.parse(await FileSystem.readAsStringAsync(uri)) : {};
+    } catch {
+      // A missing or corrupt file just means defaults
+      cache = {};
+    }
+    return cache!;
+  })();
+  return pending;
+}
+
+export async function setSetting(key: string, value: unknown) {
+  const settings = await loadSettings();
+  settings[key] = value;
+  listeners.forEach(listener => listener());
+  try {
+    await FileSystem.writeAsStringAsync(FileSystem.documentDirectory + SETTINGS_FILE, JSON.stringify(settings));
+  } catch (err) {
+    // Preferences are a convenience, the viewer keeps working with the in-memory value
+    console.warn('Could not save settings', err);
+  }
+}
+
+/**
+ * A persisted preference as React state. Every component using the same key
+ * re-renders when any of them changes it.
+ */
+export function useSetting<T>(key: string, fallback: T): [T, (value: T) => void] {
+  const [value, setValue] = useState<T>(() => (cache?.[key] as T) ?? fallback);
+
+  useEffect(() => {
+    const update = () => setValue((cache?.[key] as T) ?? fallback);
+    listeners.add(update);
+    loadSettings().then(update);
+    return () => {
+      listeners.delete(update);
+    };
+  }, [key]);
+
+  return [value, next => setSetting(key, next)];
+}
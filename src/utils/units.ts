@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+
+export type LengthUnit = 'um' | 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export const LENGTH_UNITS: LengthUnit[] = ['mm', 'cm', 'm', 'in', 'ft', 'um'];
+
+export const UNIT_LABELS: Record<LengthUnit, string> = { um: 'µm', mm: 'mm', cm: 'cm', m: 'm', in: 'in', ft: 'ft' };
+
+const MM_PER_UNIT: Record<LengthUnit, number> = { um: 0.001, mm: 1, cm: 10, m: 1000, in: 25.4, ft: 304.8 };
+
+// 3MF spells units out; the short forms come from user-facing names
+const UNIT_NAMES: Record<string, LengthUnit> = {
+  micron: 'um', micrometer: 'um', um: 'um',
+  millimeter: 'mm', millimetre: 'mm', mm: 'mm',
+  centimeter: 'cm', centimetre: 'cm', cm: 'cm',
+  meter: 'm', metre: 'm', m: 'm',
+  inch: 'in', in: 'in',
+  foot: 'ft', feet: 'ft', ft: 'ft',
+};
+
+/** The unit a model's coordinates are in and the unit values are shown in. */
+export type Units = { model: LengthUnit; display: LengthUnit };
+
+export type UnitGuess = { unit: LengthUnit; source: 'file' | 'size' };
+
+export function unitFromName(name: string | undefined): LengthUnit | null {
+  return name ? UNIT_NAMES[name.trim().toLowerCase()] ?? null : null;
+}
+
+/**
+ * The unit a file declares, or a guess from its size: STL, PLY and OBJ carry
+ * no unit, and nearly all of them are millimetres, except scans and
+ * architectural models written in metres, which then measure only a few units.
+ */
+export function guessUnit(size: THREE.Vector3, declared?: string): UnitGuess {
+  const unit = unitFromName(declared);
+  if (unit) return { unit, source: 'file' };
+  return { unit: Math.max(size.x, size.y, size.z) < 3 ? 'm' : 'mm', source: 'size' };
+}
+
+/** Factor taking a length in `from` to `to`. */
+export function unitScale(from: LengthUnit, to: LengthUnit) {
+  return MM_PER_UNIT[from] / MM_PER_UNIT[to];
+}
+
+export function formatLength(value: number, units: Units) {
+  return `${formatNumber(value * unitScale(units.model, units.display))} ${UNIT_LABELS[units.display]}`;
+}
+
+export function formatArea(value: number, units: Units) {
+  return `${formatNumber(value * unitScale(units.model, units.display) ** 2)} ${UNIT_LABELS[units.display]}²`;
+}
+
+export function formatVolume(value: number, units: Units) {
+  return `${formatNumber(value * unitScale(units.model, units.display) ** 3)} ${UNIT_LABELS[units.display]}³`;
+}
+
+// Small values get significant digits, a 5 mm part shown in metres would otherwise read 0.01
+function formatNumber(value: number) {
+  const abs = Math.abs(value);
+  if (abs >= 100) return value.toFixed(1);
+  if (abs >= 1 || abs === 0) return value.toFixed(2);
+  return String(Number(value.toPrecision(3)));
+}
@@ -0,0 +1,73 @@
+export type XmlTag = {
+  /** Element name without its namespace prefix, e.g. "colorgroup" for "m:colorgroup". */
+  name: string;
+  /** Attribute values by name without prefix, entities decoded. */
+  attributes: Record<string, string>;
+  closing: boolean;
+  selfClosing: boolean;
+};
+
+const TAG = /<(!--[\s\S]*?--|!\[CDATA\[[\s\S]*?\]\]|[?!][^>]*|\/?[^>]*)>/g;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Tags handled between yields to the JS event loop
+const TAGS_PER_CHUNK = 100000;
+
+/**
+ * Minimal streaming XML reader for machine-written files such as 3MF models:
+ * reports start and end tags in document order and ignores text content,
+ * comments and processing instructions. Building a DOM for a mesh with
+ * millions of <vertex> elements would cost far more memory than the mesh.
+ */
+export async function scanXML(
+  text: string,
+  onTag: (tag: XmlTag) => void,
+  onProgress?: (fraction: number) => void
+): Promise<void> {
+  // A fresh pattern per scan: lastIndex is state, and scans can interleave across yields
+  const tags = new RegExp(TAG);
+  let count = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tags.exec(text)) !== null) {
+    const body = match[1];
+    const first = body.charCodeAt(0);
+    if (first === 0x21 /* ! */ || first === 0x3f /* ? */) continue;
+
+    const closing = first === 0x2f; /* / */
+    const selfClosing = !closing && body.charCodeAt(body.length - 1) === 0x2f;
+    const content = body.slice(closing ? 1 : 0, selfClosing ? -1 : undefined);
+    const nameEnd = content.search(/[\s/]|$/);
+    const attributes: Record<string, string> = {};
+
+    if (!closing) {
+      ATTRIBUTE.lastIndex = nameEnd;
+      let attr: RegExpExecArray | null;
+      while ((attr = ATTRIBUTE.exec(content)) !== null) {
+        attributes[localName(attr[1])] = decodeEntities(attr[2] ?? attr[3]);
+      }
+    }
+    onTag({ name: localName(content.slice(0, nameEnd)), attributes, closing, selfClosing });
+
+    if (++count % TAGS_PER_CHUNK === 0) {
+      onProgress?.(tags.lastIndex / text.length);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  onProgress?.(1);
+}
+
+function localName(name: string) {
+  const colon = name.indexOf(':');
+  return colon >= 0 ? name.slice(colon + 1) : name;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeEntities(value: string) {
+  if (!value.includes('&')) return value;
+  return value.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return ENTITIES[code] ?? entity;
+    return String.fromCodePoint(code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+  });
+}